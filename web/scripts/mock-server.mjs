@@ -0,0 +1,36 @@
+// Minimal mock of the reservoir HTTP API for local development.
+// Usage: node scripts/mock-server.mjs [port]
+// Then run the app with VITE_RESERVOIR_API_URL=http://localhost:4010 npm run dev
+import http from 'node:http';
+import { readFileSync } from 'node:fs';
+
+const port = Number(process.argv[2] ?? 4010);
+const dataFile = new URL('../src/data/reservoirData.json', import.meta.url);
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+};
+
+http
+  .createServer((req, res) => {
+    // Re-read on every request so edits to the JSON show up without a restart
+    const data = JSON.parse(readFileSync(dataFile, 'utf8'));
+    const records = Array.isArray(data) ? data : data.reservoirs;
+    const match = req.url?.match(/^\/reservoirs(?:\/(\d+))?\/?$/);
+
+    if (req.method !== 'GET' || !match) {
+      send(res, 404, { error: 'Not found' });
+    } else if (match[1] === undefined) {
+      send(res, 200, data);
+    } else {
+      const record = records.find((r) => r.reservoir_id === Number(match[1]));
+      send(res, record ? 200 : 404, record ?? { error: 'Not found' });
+    }
+  })
+  .listen(port, () => {
+    console.log(`Mock reservoir API listening on http://localhost:${port}`);
+  });
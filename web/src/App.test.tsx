@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import App from './App';
+import type { ComponentProps } from 'react';
+import type ReservoirGraph from '@components/ReservoirGraph';
+import type { ReservoirConfig } from '@data/reservoirData';
+import type { ReservoirDataSource } from '@data/reservoirDataSource';
+
+// The graph is tested on its own; here it only needs to show what it was given
+const graph = vi.hoisted(() => ({ renders: 0, props: null as ComponentProps<typeof ReservoirGraph> | null }));
+vi.mock('@components/ReservoirGraph', () => ({
+  default: (props: ComponentProps<typeof ReservoirGraph>) => {
+    graph.renders += 1;
+    graph.props = props;
+    return <div data-testid="graph">{props.data.nodes.length} nodes</div>;
+  },
+}));
+
+describe('App', () => {
+  const reservoirs: ReservoirConfig[] = [
+    {
+      reservoir_id: 101,
+      reservoir_name: 'Emerald Lake',
+      inflow: [{ id: 'stone-creek', name: 'Stone Creek' }],
+      outflow: [{ id: 'blue-lake', name: 'Blue Lake' }],
+      projects: [],
+    },
+    {
+      reservoir_id: 105,
+      reservoir_name: 'Blue Lake',
+      inflow: [{ id: 'emerald-lake', name: 'Emerald Lake' }],
+      outflow: [],
+      projects: [{ id: 'hydro', name: 'Hydro Plant' }],
+    },
+  ];
+
+  const dataSource = (list: ReservoirDataSource['list']): ReservoirDataSource => ({
+    name: 'Test data',
+    list: vi.fn(list),
+    get: vi.fn(),
+    diagnostics: () => [],
+  });
+
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  describe('Loading', () => {
+    it('should show loading, then the error, then the reservoirs after Retry', async () => {
+      const source = dataSource(() => Promise.reject(new Error('Server unavailable')));
+      render(<App dataSource={source} />);
+
+      expect(screen.getByRole('status')).toHaveTextContent('Loading reservoirs from Test data…');
+      expect(await screen.findByRole('alert')).toHaveTextContent('Could not load reservoirs');
+      expect(screen.getByRole('alert')).toHaveTextContent('Server unavailable');
+
+      vi.mocked(source.list).mockResolvedValueOnce(reservoirs);
+      fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+      expect(await screen.findByTestId('graph')).toBeInTheDocument();
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+      expect(screen.getByLabelText('Select Reservoir:')).toHaveValue('101');
+      expect(source.list).toHaveBeenCalledTimes(2);
+    });
+
+    it('should explain an empty dataset', async () => {
+      render(<App dataSource={dataSource(async () => [])} />);
+
+      expect(await screen.findByText('No reservoirs found')).toBeInTheDocument();
+      expect(screen.getByText('Import a JSON or CSV file to get started.')).toBeInTheDocument();
+      expect(screen.queryByTestId('graph')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Diagnostics', () => {
+    it('should open the graph of the reservoir an issue links to', async () => {
+      const source = dataSource(async () => reservoirs);
+      source.diagnostics = () => [{ severity: 'error', reservoirId: 105, field: 'outflow', message: 'Broken' }];
+      render(<App dataSource={source} />);
+      await screen.findByTestId('graph');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Table' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Reservoir 105 · outflow' }));
+
+      expect(screen.getByTestId('graph')).toBeInTheDocument();
+      expect(screen.getByLabelText('Select Reservoir:')).toHaveValue('105');
+    });
+  });
+
+  describe('URL', () => {
+    it('should restore the view named in the URL', async () => {
+      window.history.replaceState(null, '', '/?reservoir=105&generations=2&layout=radial');
+      render(<App dataSource={dataSource(async () => reservoirs)} />);
+
+      await screen.findByTestId('graph');
+      expect(screen.getByLabelText('Select Reservoir:')).toHaveValue('105');
+      expect(screen.getByLabelText('Generations:')).toHaveValue('2');
+      expect(screen.getByRole('button', { name: 'Radial' })).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('should add a history entry per reservoir and switch back on popstate', async () => {
+      render(<App dataSource={dataSource(async () => reservoirs)} />);
+      await screen.findByTestId('graph');
+      await waitFor(() => expect(window.location.search).toContain('reservoir=101'));
+      const entries = window.history.length;
+
+      fireEvent.change(screen.getByLabelText('Select Reservoir:'), { target: { value: '105' } });
+      await waitFor(() => expect(window.location.search).toContain('reservoir=105'));
+      expect(window.history.length).toBe(entries + 1);
+
+      // What Back does: the URL changes, then popstate fires
+      window.history.replaceState(null, '', '/?reservoir=101&generations=1&layout=horizontal');
+      act(() => {
+        window.dispatchEvent(new PopStateEvent('popstate'));
+      });
+
+      expect(screen.getByLabelText('Select Reservoir:')).toHaveValue('101');
+    });
+
+    it('should keep a pan once it pauses, without re-rendering for every frame', async () => {
+      render(<App dataSource={dataSource(async () => reservoirs)} />);
+      await screen.findByTestId('graph');
+      const renders = graph.renders;
+
+      act(() => {
+        [10, 20, 30].forEach((x) => graph.props!.onZoomChange!({ x, y: 5, k: 1.5 }));
+      });
+
+      expect(graph.renders).toBe(renders);
+      await waitFor(() => expect(decodeURIComponent(window.location.search)).toContain('zoom=30,5,1.5'));
+    });
+
+    it('should put a node focused from the table in the URL', async () => {
+      render(<App dataSource={dataSource(async () => reservoirs)} />);
+      await screen.findByTestId('graph');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Table' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Stone Creek' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Graph' }));
+
+      expect(graph.props!.focusNodeId).toMatch(/stone-creek/);
+      await waitFor(() => expect(window.location.search).toContain(`focus=${graph.props!.focusNodeId}`));
+    });
+  });
+
+  describe('Undo and redo', () => {
+    it('should undo and redo with the keyboard outside text fields', async () => {
+      render(<App dataSource={dataSource(async () => reservoirs)} />);
+      await screen.findByTestId('graph');
+      const generations = screen.getByLabelText('Generations:');
+
+      fireEvent.change(generations, { target: { value: '2' } });
+      fireEvent.keyDown(window, { key: 'z', ctrlKey: true });
+      expect(generations).toHaveValue('1');
+
+      fireEvent.keyDown(window, { key: 'Z', ctrlKey: true, shiftKey: true });
+      expect(generations).toHaveValue('2');
+
+      // Text fields keep the shortcut for their own typing
+      fireEvent.keyDown(screen.getByLabelText('Search reservoirs and connections'), { key: 'z', ctrlKey: true });
+      expect(generations).toHaveValue('2');
+    });
+
+    it('should keep a new reservoir in its own history', async () => {
+      render(<App dataSource={dataSource(async () => reservoirs)} />);
+      await screen.findByTestId('graph');
+      const select = screen.getByLabelText('Select Reservoir:');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit' }));
+      fireEvent.click(screen.getByRole('button', { name: 'New reservoir' }));
+      expect(select).toHaveValue('106');
+      expect(screen.getByRole('button', { name: 'Undo' })).toBeEnabled();
+
+      fireEvent.change(select, { target: { value: '101' } });
+      expect(screen.getByRole('button', { name: 'Undo' })).toBeDisabled();
+    });
+  });
+});
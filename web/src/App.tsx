@@ -1,27 +1,515 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef, useEffect } from 'react';
 import ReservoirGraph from '@components/ReservoirGraph';
-import { getAllReservoirs, parseReservoirConfig } from '@data/reservoirData';
+import type { GraphTimeline, LinkWidthMode, NodeMove, ZoomState } from '@components/ReservoirGraph';
+import { LAYOUT_STRATEGIES } from '@components/graphLayout';
+import type { LayoutStrategy } from '@components/graphLayout';
+import DiagnosticsPanel from '@components/DiagnosticsPanel';
+import ImportDialog from '@components/ImportDialog';
+import WaterBalancePanel from '@components/WaterBalancePanel';
+import DownloadMenu from '@components/DownloadMenu';
+import NodeDetailPanel from '@components/NodeDetailPanel';
+import SearchBox from '@components/SearchBox';
+import WhereUsedView from '@components/WhereUsedView';
+import CompareView from '@components/CompareView';
+import ConnectionTable from '@components/ConnectionTable';
+import ReservoirEditor from '@components/ReservoirEditor';
+import { downloadBlob } from '@components/graphExport';
+import { useCommandHistory } from '@components/commandHistory';
+import { THEME_OPTIONS, useTheme } from '@components/theme';
+import type { ThemeName } from '@components/theme';
+import { forgetNodePosition, saveNodePosition } from '@components/savedPositions';
+import type { SavedPosition } from '@components/savedPositions';
+import { formatUrlState, parseUrlState } from '@components/urlState';
+import type { UrlState } from '@components/urlState';
+import type { DownloadScope } from '@components/DownloadMenu';
+import { computeWaterBalance } from '@data/reservoirData';
+import type { INode, ReservoirConfig } from '@data/reservoirData';
+import { CURRENT_SCHEMA_VERSION } from '@data/schema';
+import { getDefaultDataSource } from '@data/reservoirDataSource';
+import type { ReservoirDataSource } from '@data/reservoirDataSource';
+import {
+  buildDatasetNetwork,
+  buildReservoirNetwork,
+  findNameReferences,
+  normalizeReservoirName,
+} from '@data/reservoirNetwork';
+import type { SearchEntry } from '@data/reservoirSearch';
+import { getTimelineDates, resolveReservoirsAtDate } from '@data/reservoirTimeline';
+import { findConflictingIds, mergeReservoirs, readImportFile } from '@data/reservoirImport';
+import type { ConflictResolution, ImportResult } from '@data/reservoirImport';
+import {
+  applyReservoirEdit,
+  nextReservoirId,
+  replaceReservoir,
+  serializeReservoirData,
+} from '@data/reservoirEditing';
+import type { ReservoirEdit } from '@data/reservoirEditing';
+import { hasValidationErrors, validateReservoirData } from '@data/reservoirValidation';
+import type { ValidationIssue } from '@data/reservoirValidation';
 
-function App() {
-  const reservoirs = useMemo(() => getAllReservoirs(), []);
-  const [selectedReservoirId, setSelectedReservoirId] = useState<number>(
-    reservoirs[0]?.reservoir_id || 101
+const MAX_GENERATIONS = 4;
+
+/** How long the view must settle before the URL is updated, so panning doesn't flood history */
+const URL_UPDATE_DELAY_MS = 200;
+
+/** How long a pan or zoom must pause before it is kept, so the app doesn't re-render every frame */
+const ZOOM_COMMIT_DELAY_MS = 100;
+
+const defaultDataSource = getDefaultDataSource();
+
+const STATUS_STYLE: React.CSSProperties = {
+  height: '100%',
+  display: 'flex',
+  flexDirection: 'column',
+  alignItems: 'center',
+  justifyContent: 'center',
+  gap: '8px',
+  fontSize: '14px',
+};
+
+const STATUS_BUTTON_STYLE: React.CSSProperties = {
+  marginTop: '8px',
+  padding: '8px 16px',
+  fontSize: '14px',
+  borderRadius: '6px',
+  cursor: 'pointer',
+};
+
+type AppView = 'graph' | 'table' | 'compare' | 'where-used';
+
+const VIEWS: { value: AppView; label: string }[] = [
+  { value: 'graph', label: 'Graph' },
+  { value: 'table', label: 'Table' },
+  { value: 'compare', label: 'Compare' },
+  { value: 'where-used', label: 'Where used' },
+];
+
+const EDIT_LABELS: Record<ReservoirEdit['type'], string> = {
+  'add-connection': 'add connection',
+  'rename-connection': 'rename connection',
+  'remove-connection': 'delete connection',
+  'move-connection': 'reorder connections',
+  'rename-reservoir': 'rename reservoir',
+  'create-reservoir': 'create reservoir',
+};
+
+/** A node in a reservoir's graph as a search entry, the form a focused node is kept in */
+const nodeSearchEntry = (reservoir: ReservoirConfig, node: INode): SearchEntry => ({
+  nodeId: node.id,
+  name: node.label,
+  type: node.type,
+  reservoirId: reservoir.reservoir_id,
+  reservoirName: reservoir.reservoir_name,
+});
+
+/** The search entry for a node named in the URL, if that reservoir's network still has it */
+const findSearchEntry = (
+  reservoirs: ReservoirConfig[],
+  reservoirId: number,
+  generations: number,
+  nodeId: string | undefined
+) => {
+  const reservoir = reservoirs.find((r) => r.reservoir_id === reservoirId);
+  if (!reservoir || !nodeId) return null;
+  const node = buildReservoirNetwork(reservoirs, reservoirId, generations).nodes.find((n) => n.id === nodeId);
+  return node ? nodeSearchEntry(reservoir, node) : null;
+};
+
+/** Text fields keep the browser's own undo for their contents */
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLElement && target.isContentEditable) ||
+  (target instanceof HTMLInputElement && !['checkbox', 'radio', 'range', 'button'].includes(target.type));
+
+const HISTORY_BUTTON_STYLE: React.CSSProperties = {
+  padding: '8px 10px',
+  fontSize: '14px',
+  borderRadius: '6px',
+  cursor: 'pointer',
+};
+
+type LoadState = { status: 'loading' } | { status: 'ready' } | { status: 'error'; message: string };
+
+interface AppProps {
+  dataSource?: ReservoirDataSource;
+}
+
+function App({ dataSource = defaultDataSource }: AppProps) {
+  const { name: themeName, theme, setThemeName } = useTheme();
+  const { chrome } = theme;
+  const [reservoirs, setReservoirs] = useState<ReservoirConfig[]>([]);
+  const [loadState, setLoadState] = useState<LoadState>({ status: 'loading' });
+  const [reloadCount, setReloadCount] = useState(0);
+  const [diagnostics, setDiagnostics] = useState<ValidationIssue[]>([]);
+  const [diagnosticsSource, setDiagnosticsSource] = useState(dataSource.name);
+  const [pendingImport, setPendingImport] = useState<ImportResult | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // The view named in the URL when the page was opened
+  const [initialUrlState] = useState(() => parseUrlState(window.location.search));
+  const [selectedReservoirId, setSelectedReservoirId] = useState<number>(initialUrlState.reservoirId ?? 101);
+
+  const [generations, setGenerations] = useState<number>(
+    Math.min(initialUrlState.generations ?? 1, MAX_GENERATIONS)
+  );
+  const [linkWidthMode, setLinkWidthMode] = useState<LinkWidthMode>(initialUrlState.linkWidthMode ?? 'uniform');
+  const [layoutStrategy, setLayoutStrategy] = useState<LayoutStrategy>(
+    initialUrlState.layoutStrategy ?? 'horizontal'
+  );
+  // Pan and zoom of the graph, kept for the network it was made on: another reservoir
+  // or number of generations starts from the initial zoom again
+  const zoomKey = `${selectedReservoirId}:${generations}`;
+  const [zoom, setZoom] = useState<{ key: string; transform: ZoomState } | null>(() =>
+    initialUrlState.zoom ? { key: zoomKey, transform: initialUrlState.zoom } : null
+  );
+  const zoomTransform = zoom?.key === zoomKey ? zoom.transform : null;
+  // A pan or zoom in progress, kept once it pauses; setting the zoom directly drops it
+  const zoomTimerRef = useRef<number>();
+  const updateZoom = (next: { key: string; transform: ZoomState } | null) => {
+    window.clearTimeout(zoomTimerRef.current);
+    setZoom(next);
+  };
+  const handleZoomChange = (transform: ZoomState) => {
+    window.clearTimeout(zoomTimerRef.current);
+    const key = zoomKey;
+    zoomTimerRef.current = window.setTimeout(() => setZoom({ key, transform }), ZOOM_COMMIT_DELAY_MS);
+  };
+  useEffect(() => () => window.clearTimeout(zoomTimerRef.current), []);
+  const [view, setView] = useState<AppView>('graph');
+  // Right-hand reservoir in compare mode; the selected reservoir is on the left
+  const [compareReservoirId, setCompareReservoirId] = useState<number | null>(null);
+
+  const [timelineDate, setTimelineDate] = useState<string | null>(null);
+
+  // Undo/redo covers moves, edits and view settings, separately for each reservoir
+  const history = useCommandHistory(String(selectedReservoirId));
+  const [positionsRevision, setPositionsRevision] = useState(0);
+
+  const changeSetting = <T,>(label: string, set: (value: T) => void, from: T, to: T) => {
+    if (from !== to) history.execute({ label, redo: () => set(to), undo: () => set(from) });
+  };
+
+  // Moves belong to the reservoir whose graph they were made in (in compare view, either side)
+  const handleNodeMove = ({ node, positionsKey, from, to }: NodeMove, reservoirId = selectedReservoirId) => {
+    const place = (position: SavedPosition | null) => {
+      if (position) {
+        saveNodePosition(positionsKey, node.id, position);
+      } else {
+        forgetNodePosition(positionsKey, node.id);
+      }
+      setPositionsRevision((n) => n + 1);
+    };
+    history.record(
+      { label: `move ${node.label}`, undo: () => place(from), redo: () => place(to) },
+      String(reservoirId)
+    );
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z' || isTextField(event.target)) {
+        return;
+      }
+      event.preventDefault();
+      if (event.shiftKey) {
+        history.redo();
+      } else {
+        history.undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Reservoirs as they were on the selected timeline date (or as configured now)
+  const datedReservoirs = useMemo(
+    () => (timelineDate ? resolveReservoirsAtDate(reservoirs, timelineDate) : reservoirs),
+    [reservoirs, timelineDate]
+  );
+
+  const graphData = useMemo(
+    () => buildReservoirNetwork(datedReservoirs, selectedReservoirId, generations),
+    [selectedReservoirId, generations, datedReservoirs]
+  );
+
+  // The timeline covers snapshots of every reservoir in the displayed network
+  const timeline = useMemo<GraphTimeline>(() => {
+    const shown = new Set(graphData.nodes.filter((n) => n.type === 'main_reservoir').map((n) => n.id));
+    return {
+      dates: getTimelineDates(reservoirs.filter((r) => shown.has(`reservoir_${r.reservoir_id}`))),
+      currentDate: timelineDate,
+      onDateChange: setTimelineDate,
+    };
+  }, [graphData, reservoirs, timelineDate]);
+
+  useEffect(() => {
+    setTimelineDate(null);
+  }, [selectedReservoirId]);
+
+  const selectedReservoir = datedReservoirs.find((r) => r.reservoir_id === selectedReservoirId);
+
+  // The node whose details are open; closes by itself if the node leaves the graph
+  const [detailNodeId, setDetailNodeId] = useState<string | null>(null);
+  const nodeDetail = useMemo(() => {
+    const node = graphData.nodes.find((n) => n.id === detailNodeId);
+    if (!node) return null;
+
+    const links = graphData.links.filter((l) => l.source === node.id || l.target === node.id);
+    const reservoirOf = (nodeId: string) => datedReservoirs.find((r) => `reservoir_${r.reservoir_id}` === nodeId);
+    // A connection belongs to the reservoir it links to; a main node is its own reservoir
+    const ownerNodeIds =
+      node.type === 'main_reservoir'
+        ? [node.id]
+        : links.map((l) => (l.source === node.id ? l.target : l.source));
+    const ownIds = new Set(ownerNodeIds.map((id) => reservoirOf(id)?.reservoir_id));
+    return {
+      node,
+      links,
+      reservoir: node.type === 'main_reservoir' ? reservoirOf(node.id) : undefined,
+      references: findNameReferences(datedReservoirs, node.label).filter((r) => !ownIds.has(r.reservoirId)),
+    };
+  }, [graphData, datedReservoirs, detailNodeId]);
+
+  // The node last chosen from search or the table view, highlighted while its reservoir is selected
+  const [searchFocus, setSearchFocus] = useState<SearchEntry | null>(null);
+  const focusNodeId = useMemo(() => {
+    if (!searchFocus || searchFocus.reservoirId !== selectedReservoirId) return null;
+    if (graphData.nodes.some((n) => n.id === searchFocus.nodeId)) return searchFocus.nodeId;
+    // A connection to another reservoir in the network is drawn as that reservoir's node
+    const name = normalizeReservoirName(searchFocus.name);
+    return (
+      graphData.nodes.find((n) => n.type === 'main_reservoir' && normalizeReservoirName(n.label) === name)?.id ??
+      null
+    );
+  }, [graphData, searchFocus, selectedReservoirId]);
+
+  // A node focused in the URL is looked up once the reservoirs have loaded
+  const pendingFocusRef = useRef(initialUrlState.focusNodeId);
+  useEffect(() => {
+    if (!pendingFocusRef.current || reservoirs.length === 0) return;
+    setSearchFocus(findSearchEntry(reservoirs, selectedReservoirId, generations, pendingFocusRef.current));
+    pendingFocusRef.current = undefined;
+  }, [reservoirs, selectedReservoirId, generations]);
+
+  const handleSearchSelect = (entry: SearchEntry) => {
+    setSelectedReservoirId(entry.reservoirId);
+    setSearchFocus(entry);
+    // Start the graph from the initial zoom, so it zooms in to the result even if it was hidden
+    updateZoom(null);
+    setView('graph');
+  };
+
+  const handleTableSelect = (nodeId: string) => {
+    const node = graphData.nodes.find((n) => n.id === nodeId);
+    if (!selectedReservoir || !node) return;
+    setSearchFocus(nodeSearchEntry(selectedReservoir, node));
+    updateZoom(null);
+  };
+
+  const compareId =
+    compareReservoirId ??
+    reservoirs.find((r) => r.reservoir_id !== selectedReservoirId)?.reservoir_id ??
+    selectedReservoirId;
+
+  // Edit mode changes the loaded dataset in place; the graph follows every edit
+  const [isEditing, setIsEditing] = useState(false);
+  const editIssues = useMemo(
+    () =>
+      isEditing ? validateReservoirData({ schema_version: CURRENT_SCHEMA_VERSION, reservoirs }) : [],
+    [isEditing, reservoirs]
   );
+  const editedReservoir = reservoirs.find((r) => r.reservoir_id === selectedReservoirId);
+
+  const handleEdit = (edit: ReservoirEdit) => {
+    // Undo restores the edited reservoir alone, so edits to other reservoirs since are kept.
+    // The command goes in that reservoir's history, which for a new reservoir isn't the current one.
+    const { reservoirId } = edit;
+    const before = reservoirs.find((r) => r.reservoir_id === reservoirId);
+    const after = applyReservoirEdit(reservoirs, edit).find((r) => r.reservoir_id === reservoirId);
+    if (before === after) return;
+    history.execute(
+      {
+        label: EDIT_LABELS[edit.type],
+        redo: () => setReservoirs((current) => replaceReservoir(current, reservoirId, after)),
+        undo: () => setReservoirs((current) => replaceReservoir(current, reservoirId, before)),
+      },
+      String(reservoirId)
+    );
+  };
+
+  const handleCreateReservoir = () => {
+    const reservoirId = nextReservoirId(reservoirs);
+    handleEdit({ type: 'create-reservoir', reservoirId, name: `New reservoir ${reservoirId}` });
+    setSelectedReservoirId(reservoirId);
+  };
+
+  const handleDownloadData = () => {
+    const blob = new Blob([serializeReservoirData(reservoirs)], { type: 'application/json' });
+    downloadBlob(blob, 'reservoirData.json');
+  };
+
+  const toggleEditing = () => {
+    // Edits apply to the current configuration, so leave any past snapshot
+    setTimelineDate(null);
+    setView('graph');
+    setIsEditing(!isEditing);
+  };
+
+  const showReservoir = (reservoirId: number) => {
+    setSelectedReservoirId(reservoirId);
+    setView('graph');
+  };
+
+  // Keep the URL in step with the view. Choosing another reservoir adds a history entry,
+  // so back and forward move between reservoirs; other changes update the current entry.
+  const urlState: UrlState = {
+    reservoirId: selectedReservoirId,
+    zoom: zoomTransform ?? undefined,
+    focusNodeId: searchFocus?.reservoirId === selectedReservoirId ? searchFocus.nodeId : undefined,
+    generations,
+    linkWidthMode,
+    layoutStrategy,
+  };
+  const urlSearch = formatUrlState(urlState);
+  const urlReservoirRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (loadState.status !== 'ready') return;
+    const timer = window.setTimeout(() => {
+      const isNewReservoir = urlReservoirRef.current !== null && urlReservoirRef.current !== selectedReservoirId;
+      urlReservoirRef.current = selectedReservoirId;
+      if (urlSearch === window.location.search) return;
+      const url = `${window.location.pathname}${urlSearch}${window.location.hash}`;
+      if (isNewReservoir) {
+        window.history.pushState(null, '', url);
+      } else {
+        window.history.replaceState(null, '', url);
+      }
+    }, URL_UPDATE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [urlSearch, selectedReservoirId, loadState.status]);
 
-  const graphData = useMemo(() => {
-    const reservoir = reservoirs.find((r) => r.reservoir_id === selectedReservoirId);
-    return reservoir ? parseReservoirConfig(reservoir) : { nodes: [], links: [] };
-  }, [selectedReservoirId, reservoirs]);
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = parseUrlState(window.location.search);
+      const reservoirId = reservoirs.some((r) => r.reservoir_id === state.reservoirId)
+        ? state.reservoirId!
+        : selectedReservoirId;
+      const restoredGenerations = Math.min(state.generations ?? 1, MAX_GENERATIONS);
+      urlReservoirRef.current = reservoirId;
+      setSelectedReservoirId(reservoirId);
+      setGenerations(restoredGenerations);
+      setLinkWidthMode(state.linkWidthMode ?? 'uniform');
+      setLayoutStrategy(state.layoutStrategy ?? 'horizontal');
+      updateZoom(state.zoom ? { key: `${reservoirId}:${restoredGenerations}`, transform: state.zoom } : null);
+      setSearchFocus(findSearchEntry(reservoirs, reservoirId, restoredGenerations, state.focusNodeId));
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  });
+
+  const labelOf = (nodeId: string) => graphData.nodes.find((n) => n.id === nodeId)?.label ?? nodeId;
+  const waterBalance = useMemo(
+    () => (selectedReservoir ? computeWaterBalance(selectedReservoir) : null),
+    [selectedReservoir]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadState({ status: 'loading' });
+
+    dataSource
+      .list()
+      .then((list) => {
+        if (cancelled) return;
+        setReservoirs(list);
+        setSelectedReservoirId((current) =>
+          list.some((r) => r.reservoir_id === current) ? current : list[0]?.reservoir_id ?? current
+        );
+        setLoadState({ status: 'ready' });
+      })
+      .catch((error: Error) => {
+        if (cancelled) return;
+        setReservoirs([]);
+        setLoadState({ status: 'error', message: error.message });
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setDiagnostics(dataSource.diagnostics());
+        setDiagnosticsSource(`${dataSource.name}:${Date.now()}`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataSource, reloadCount]);
+
+  const handleImportFile = async (file: File) => {
+    const result = await readImportFile(file);
+    setDiagnostics(result.issues);
+    setDiagnosticsSource(`import:${result.fileName}:${Date.now()}`);
+    // Files with errors stop here; the diagnostics panel explains why
+    if (result.reservoirs.length > 0) {
+      setPendingImport(result);
+    }
+  };
+
+  const applyImport = (next: ReservoirConfig[]) => {
+    setReservoirs(next);
+    setLoadState({ status: 'ready' });
+    if (!next.some((r) => r.reservoir_id === selectedReservoirId)) {
+      setSelectedReservoirId(next[0]?.reservoir_id ?? selectedReservoirId);
+    }
+    setPendingImport(null);
+  };
+
+  const getDownloadGraph = (scope: DownloadScope) =>
+    scope === 'reservoir' ? graphData : buildDatasetNetwork(datedReservoirs);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleImportFile(file);
+  };
+
+  const statusStyle = { ...STATUS_STYLE, color: chrome.text };
+  const themedButton = (style: React.CSSProperties): React.CSSProperties => ({
+    ...style,
+    border: `1px solid ${chrome.border}`,
+    background: chrome.surface,
+    color: chrome.text,
+  });
+  const statusButtonStyle = themedButton(STATUS_BUTTON_STYLE);
+  const historyButtonStyle = themedButton(HISTORY_BUTTON_STYLE);
 
   return (
-    <div style={{ width: '100vw', height: '100vh', display: 'flex', flexDirection: 'column' }}>
+    <div
+      style={{
+        width: '100vw',
+        height: '100vh',
+        display: 'flex',
+        flexDirection: 'column',
+        background: chrome.background,
+        color: chrome.text,
+        colorScheme: theme.colorScheme,
+        outline: isDragging ? `3px dashed ${chrome.accent}` : 'none',
+        outlineOffset: '-3px',
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
       {/* Header with dropdown */}
       <div
         style={{
           padding: '16px 24px',
-          background: 'white',
-          borderBottom: '1px solid #e0e0e0',
-          boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+          background: chrome.surface,
+          borderBottom: `1px solid ${chrome.divider}`,
+          boxShadow: `0 2px 4px ${chrome.shadow}`,
         }}
       >
         <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
@@ -30,7 +518,7 @@ function App() {
             style={{
               fontSize: '14px',
               fontWeight: '600',
-              color: '#333',
+              color: chrome.text,
             }}
           >
             Select Reservoir:
@@ -38,13 +526,17 @@ function App() {
           <select
             id="reservoir-select"
             value={selectedReservoirId}
-            onChange={(e) => setSelectedReservoirId(Number(e.target.value))}
+            onChange={(e) => {
+              setSelectedReservoirId(Number(e.target.value));
+              setSearchFocus(null);
+            }}
             style={{
               padding: '8px 12px',
               fontSize: '14px',
-              border: '1px solid #ccc',
+              border: `1px solid ${chrome.border}`,
               borderRadius: '6px',
-              background: 'white',
+              background: chrome.surface,
+              color: chrome.text,
               cursor: 'pointer',
               minWidth: '300px',
               outline: 'none',
@@ -56,13 +548,325 @@ function App() {
               </option>
             ))}
           </select>
+          <SearchBox reservoirs={reservoirs} onSelect={handleSearchSelect} />
+          <label
+            htmlFor="generations-select"
+            style={{
+              fontSize: '14px',
+              fontWeight: '600',
+              color: chrome.text,
+              marginLeft: '12px',
+            }}
+          >
+            Generations:
+          </label>
+          <select
+            id="generations-select"
+            value={generations}
+            onChange={(e) =>
+              changeSetting('change generations', setGenerations, generations, Number(e.target.value))
+            }
+            style={{
+              padding: '8px 12px',
+              fontSize: '14px',
+              border: `1px solid ${chrome.border}`,
+              borderRadius: '6px',
+              background: chrome.surface,
+              color: chrome.text,
+              cursor: 'pointer',
+              outline: 'none',
+            }}
+          >
+            {Array.from({ length: MAX_GENERATIONS + 1 }, (_, i) => (
+              <option key={i} value={i}>
+                {i === 0 ? 'This reservoir only' : `${i} up / ${i} down`}
+              </option>
+            ))}
+          </select>
+          <label
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              fontSize: '14px',
+              color: chrome.text,
+              marginLeft: '12px',
+              cursor: 'pointer',
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={linkWidthMode === 'flow'}
+              onChange={(e) =>
+                changeSetting(
+                  'toggle flow scaling',
+                  setLinkWidthMode,
+                  linkWidthMode,
+                  e.target.checked ? 'flow' : 'uniform'
+                )
+              }
+            />
+            Scale links by flow
+          </label>
+          <div
+            role="group"
+            aria-label="Layout"
+            style={{
+              display: 'flex',
+              marginLeft: '12px',
+              border: `1px solid ${chrome.border}`,
+              borderRadius: '6px',
+              overflow: 'hidden',
+            }}
+          >
+            {LAYOUT_STRATEGIES.map(({ value, label }, i) => (
+              <button
+                key={value}
+                onClick={() =>
+                  changeSetting(`switch to ${label.toLowerCase()} layout`, setLayoutStrategy, layoutStrategy, value)
+                }
+                aria-pressed={layoutStrategy === value}
+                style={{
+                  padding: '8px 12px',
+                  fontSize: '14px',
+                  border: 'none',
+                  borderLeft: i === 0 ? 'none' : `1px solid ${chrome.border}`,
+                  background: layoutStrategy === value ? chrome.accent : chrome.surface,
+                  color: layoutStrategy === value ? chrome.accentText : chrome.text,
+                  cursor: 'pointer',
+                }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div
+            role="group"
+            aria-label="View"
+            style={{
+              display: 'flex',
+              marginLeft: '12px',
+              border: `1px solid ${chrome.border}`,
+              borderRadius: '6px',
+              overflow: 'hidden',
+            }}
+          >
+            {VIEWS.map(({ value, label }, i) => (
+              <button
+                key={value}
+                onClick={() => setView(value)}
+                aria-pressed={view === value}
+                style={{
+                  padding: '8px 12px',
+                  fontSize: '14px',
+                  border: 'none',
+                  borderLeft: i === 0 ? 'none' : `1px solid ${chrome.border}`,
+                  background: view === value ? chrome.accent : chrome.surface,
+                  color: view === value ? chrome.accentText : chrome.text,
+                  cursor: 'pointer',
+                }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div style={{ display: 'flex', gap: '4px', marginLeft: 'auto' }}>
+            <button
+              onClick={history.undo}
+              disabled={!history.undoLabel}
+              aria-label="Undo"
+              title={history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+              style={historyButtonStyle}
+            >
+              ↶
+            </button>
+            <button
+              onClick={history.redo}
+              disabled={!history.redoLabel}
+              aria-label="Redo"
+              title={history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              style={historyButtonStyle}
+            >
+              ↷
+            </button>
+          </div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            title="Import a JSON or CSV file (or drop it onto the page)"
+            style={{
+              padding: '8px 12px',
+              fontSize: '14px',
+              border: `1px solid ${chrome.border}`,
+              borderRadius: '6px',
+              background: chrome.surface,
+              color: chrome.text,
+              cursor: 'pointer',
+            }}
+          >
+            Import data…
+          </button>
+          <button
+            onClick={toggleEditing}
+            aria-pressed={isEditing}
+            disabled={loadState.status !== 'ready'}
+            style={{
+              padding: '8px 12px',
+              fontSize: '14px',
+              border: `1px solid ${chrome.border}`,
+              borderRadius: '6px',
+              background: isEditing ? chrome.accent : chrome.surface,
+              color: isEditing ? chrome.accentText : chrome.text,
+              cursor: 'pointer',
+            }}
+          >
+            Edit
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv"
+            aria-label="Import data file"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImportFile(file);
+              e.target.value = '';
+            }}
+          />
+          {selectedReservoir && (
+            <DownloadMenu reservoirName={selectedReservoir.reservoir_name} getGraph={getDownloadGraph} />
+          )}
+          <select
+            value={themeName}
+            onChange={(e) => setThemeName(e.target.value as ThemeName)}
+            aria-label="Theme"
+            title="Theme"
+            style={{
+              padding: '8px 12px',
+              fontSize: '14px',
+              border: `1px solid ${chrome.border}`,
+              borderRadius: '6px',
+              background: chrome.surface,
+              color: chrome.text,
+              cursor: 'pointer',
+              outline: 'none',
+            }}
+          >
+            {THEME_OPTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
         </div>
       </div>
 
+      <DiagnosticsPanel
+        key={diagnosticsSource}
+        issues={diagnostics}
+        onSelectReservoir={showReservoir}
+      />
+
       {/* Graph container */}
       <div style={{ flex: 1, overflow: 'hidden' }}>
-        <ReservoirGraph data={graphData} />
+        {loadState.status === 'loading' && (
+          <div role="status" style={statusStyle}>
+            Loading reservoirs from {dataSource.name}…
+          </div>
+        )}
+        {loadState.status === 'error' && (
+          <div role="alert" style={statusStyle}>
+            <div style={{ color: chrome.error, fontWeight: 600 }}>Could not load reservoirs</div>
+            <div style={{ color: chrome.mutedText }}>{loadState.message}</div>
+            <button onClick={() => setReloadCount((n) => n + 1)} style={statusButtonStyle}>
+              Retry
+            </button>
+          </div>
+        )}
+        {loadState.status === 'ready' && reservoirs.length === 0 && (
+          <div role="status" style={statusStyle}>
+            <div style={{ fontWeight: 600 }}>No reservoirs found</div>
+            <div style={{ color: chrome.mutedText }}>Import a JSON or CSV file to get started.</div>
+          </div>
+        )}
+        {loadState.status === 'ready' && reservoirs.length > 0 && view === 'compare' && (
+          <CompareView
+            reservoirs={datedReservoirs}
+            leftId={selectedReservoirId}
+            rightId={compareId}
+            onLeftChange={setSelectedReservoirId}
+            onRightChange={setCompareReservoirId}
+            layoutStrategy={layoutStrategy}
+            linkWidthMode={linkWidthMode}
+            onNodeMove={handleNodeMove}
+            positionsRevision={positionsRevision}
+          />
+        )}
+        {loadState.status === 'ready' && reservoirs.length > 0 && view === 'table' && (
+          <ConnectionTable data={graphData} selectedNodeId={focusNodeId} onSelectNode={handleTableSelect} />
+        )}
+        {loadState.status === 'ready' && reservoirs.length > 0 && view === 'where-used' && (
+          <WhereUsedView reservoirs={datedReservoirs} onSelectReservoir={showReservoir} />
+        )}
+        {loadState.status === 'ready' && reservoirs.length > 0 && view === 'graph' && (
+          <div style={{ display: 'flex', height: '100%' }}>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <ReservoirGraph
+                data={graphData}
+                linkWidthMode={linkWidthMode}
+                layoutStrategy={layoutStrategy}
+                layoutKey={String(selectedReservoirId)}
+                timeline={timeline}
+                exportName={selectedReservoir?.reservoir_name}
+                onNodeClick={(node) => setDetailNodeId(node.id)}
+                onNodeMove={handleNodeMove}
+                positionsRevision={positionsRevision}
+                focusNodeId={focusNodeId}
+                zoomTransform={zoomTransform}
+                onZoomChange={handleZoomChange}
+              />
+            </div>
+            {isEditing && editedReservoir ? (
+              <ReservoirEditor
+                reservoir={editedReservoir}
+                issues={editIssues.filter(
+                  (issue) => issue.reservoirId === undefined || issue.reservoirId === selectedReservoirId
+                )}
+                canDownload={!hasValidationErrors(editIssues)}
+                onEdit={handleEdit}
+                onCreateReservoir={handleCreateReservoir}
+                onDownload={handleDownloadData}
+                onClose={() => setIsEditing(false)}
+              />
+            ) : nodeDetail ? (
+              <NodeDetailPanel
+                {...nodeDetail}
+                labelOf={labelOf}
+                onSelectReservoir={showReservoir}
+                onClose={() => setDetailNodeId(null)}
+              />
+            ) : (
+              selectedReservoir &&
+              waterBalance && (
+                <WaterBalancePanel reservoirName={selectedReservoir.reservoir_name} balance={waterBalance} />
+              )
+            )}
+          </div>
+        )}
       </div>
+
+      {pendingImport && (
+        <ImportDialog
+          fileName={pendingImport.fileName}
+          reservoirs={pendingImport.reservoirs}
+          conflictingIds={findConflictingIds(reservoirs, pendingImport.reservoirs)}
+          onReplace={() => applyImport(pendingImport.reservoirs)}
+          onMerge={(resolution: ConflictResolution) =>
+            applyImport(mergeReservoirs(reservoirs, pendingImport.reservoirs, resolution))
+          }
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import type { ComponentProps } from 'react';
+import CompareView from './CompareView';
+import type ReservoirGraph from './ReservoirGraph';
+import type { ReservoirConfig } from '@data/reservoirData';
+
+type GraphProps = ComponentProps<typeof ReservoirGraph>;
+
+// Record the props each graph receives instead of drawing it
+const graphProps = vi.hoisted(() => [] as GraphProps[]);
+vi.mock('./ReservoirGraph', () => ({
+  default: (props: GraphProps) => {
+    graphProps.push(props);
+    return <div data-testid="graph">{props.exportName}</div>;
+  },
+}));
+
+describe('CompareView', () => {
+  const reservoirs: ReservoirConfig[] = [
+    {
+      reservoir_id: 1,
+      reservoir_name: 'Upper Lake',
+      inflow: [{ id: 'stone-creek', name: 'Stone Creek' }],
+      outflow: [{ id: 'main-canal', name: 'Main Canal' }],
+      projects: [],
+    },
+    {
+      reservoir_id: 2,
+      reservoir_name: 'Lower Lake',
+      inflow: [{ id: 'main-canal', name: 'Main Canal' }],
+      outflow: [],
+      projects: [{ id: 'hydro', name: 'Hydro Plant' }],
+    },
+  ];
+
+  const latestProps = (exportName: string) => graphProps.filter((p) => p.exportName === exportName).at(-1)!;
+
+  beforeEach(() => {
+    graphProps.length = 0;
+  });
+
+  it('should render both reservoirs side by side', () => {
+    render(
+      <CompareView reservoirs={reservoirs} leftId={1} rightId={2} onLeftChange={vi.fn()} onRightChange={vi.fn()} />
+    );
+
+    expect(screen.getAllByTestId('graph').map((g) => g.textContent)).toEqual(['Upper Lake', 'Lower Lake']);
+  });
+
+  it('should highlight shared connections and list what is unique to each', () => {
+    render(
+      <CompareView reservoirs={reservoirs} leftId={1} rightId={2} onLeftChange={vi.fn()} onRightChange={vi.fn()} />
+    );
+
+    expect(latestProps('Upper Lake').highlightNodeIds).toEqual(['outflow_1_main-canal']);
+    expect(latestProps('Lower Lake').highlightNodeIds).toEqual(['inflow_2_main-canal']);
+    expect(screen.getByText('Shared (1)')).toBeInTheDocument();
+    expect(screen.getByText('Only in Upper Lake (1)')).toBeInTheDocument();
+    expect(screen.getByText('Stone Creek')).toBeInTheDocument();
+    expect(screen.getByText('Only in Lower Lake (1)')).toBeInTheDocument();
+    expect(screen.getByText('Hydro Plant')).toBeInTheDocument();
+  });
+
+  it('should keep both graphs at the same zoom', () => {
+    render(
+      <CompareView reservoirs={reservoirs} leftId={1} rightId={2} onLeftChange={vi.fn()} onRightChange={vi.fn()} />
+    );
+
+    act(() => latestProps('Upper Lake').onZoomChange!({ x: 10, y: 20, k: 2 }));
+    expect(latestProps('Upper Lake').zoomTransform).toEqual({ x: 10, y: 20, k: 2 });
+    expect(latestProps('Lower Lake').zoomTransform).toEqual({ x: 10, y: 20, k: 2 });
+  });
+
+  it('should change either reservoir from its picker', () => {
+    const onRightChange = vi.fn();
+    render(
+      <CompareView
+        reservoirs={reservoirs}
+        leftId={1}
+        rightId={2}
+        onLeftChange={vi.fn()}
+        onRightChange={onRightChange}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Right reservoir'), { target: { value: '1' } });
+    expect(onRightChange).toHaveBeenCalledWith(1);
+  });
+
+  it('should report drags with the reservoir they were made on', () => {
+    const onNodeMove = vi.fn();
+    render(
+      <CompareView
+        reservoirs={reservoirs}
+        leftId={1}
+        rightId={2}
+        onLeftChange={vi.fn()}
+        onRightChange={vi.fn()}
+        onNodeMove={onNodeMove}
+      />
+    );
+    const move = {
+      node: { id: 'project_2_hydro', label: 'Hydro Plant', type: 'project' },
+      positionsKey: '2:horizontal',
+      from: null,
+      to: { x: 10, y: 20 },
+    };
+
+    act(() => latestProps('Lower Lake').onNodeMove!(move));
+    expect(onNodeMove).toHaveBeenCalledWith(move, 2);
+  });
+});
@@ -0,0 +1,207 @@
+import { useMemo, useState } from 'react';
+import ReservoirGraph from './ReservoirGraph';
+import type { LinkWidthMode, NodeMove, ZoomState } from './ReservoirGraph';
+import type { LayoutStrategy } from './graphLayout';
+import { useTheme } from './theme';
+import { normalizeReservoirName, parseReservoirConfig } from '@data/reservoirData';
+import type { ReservoirConfig } from '@data/reservoirData';
+import { compareReservoirs } from '@data/reservoirCompare';
+import type { ComparedConnection } from '@data/reservoirCompare';
+
+interface CompareViewProps {
+  reservoirs: ReservoirConfig[];
+  leftId: number;
+  rightId: number;
+  onLeftChange: (reservoirId: number) => void;
+  onRightChange: (reservoirId: number) => void;
+  layoutStrategy?: LayoutStrategy;
+  linkWidthMode?: LinkWidthMode;
+  onNodeMove?: (move: NodeMove, reservoirId: number) => void; // A drag in either graph
+  positionsRevision?: number; // Bump to redraw after saved positions change, e.g. on undo
+}
+
+const SELECT_STYLE: React.CSSProperties = {
+  padding: '6px 10px',
+  fontSize: '14px',
+  borderRadius: '6px',
+  cursor: 'pointer',
+};
+
+const LIST_TITLE_STYLE: React.CSSProperties = {
+  margin: '0 0 6px',
+  fontSize: '13px',
+  fontWeight: 600,
+};
+
+const ConnectionList = ({
+  title,
+  connections,
+  describe,
+  swatch,
+}: {
+  title: string;
+  connections: ComparedConnection[];
+  describe: (connection: ComparedConnection) => string;
+  swatch?: string;
+}) => {
+  const { theme } = useTheme();
+
+  return (
+    <section style={{ flex: 1, minWidth: 0 }}>
+      <h3 style={{ ...LIST_TITLE_STYLE, color: theme.chrome.mutedText }}>
+        {swatch && (
+          <span
+            style={{
+              display: 'inline-block',
+              width: '10px',
+              height: '10px',
+              marginRight: '6px',
+              border: `2px solid ${swatch}`,
+              borderRadius: '50%',
+            }}
+          />
+        )}
+        {title} ({connections.length})
+      </h3>
+      {connections.length === 0 ? (
+        <div style={{ color: theme.chrome.mutedText }}>None</div>
+      ) : (
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+          {connections.map((connection) => (
+            <li key={connection.key} style={{ padding: '2px 0' }}>
+              {connection.name} <span style={{ color: theme.chrome.mutedText }}>({describe(connection)})</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+const CompareView = ({
+  reservoirs,
+  leftId,
+  rightId,
+  onLeftChange,
+  onRightChange,
+  layoutStrategy,
+  linkWidthMode,
+  onNodeMove,
+  positionsRevision,
+}: CompareViewProps) => {
+  const { theme } = useTheme();
+  // Both graphs follow the same pan and zoom
+  const [zoom, setZoom] = useState<ZoomState | null>(null);
+
+  const left = reservoirs.find((r) => r.reservoir_id === leftId);
+  const right = reservoirs.find((r) => r.reservoir_id === rightId);
+  const comparison = useMemo(() => (left && right ? compareReservoirs(left, right) : null), [left, right]);
+  // Memoized so zooming (which re-renders this view) doesn't redraw the graphs
+  const leftGraph = useMemo(() => (left ? parseReservoirConfig(left) : null), [left]);
+  const rightGraph = useMemo(() => (right ? parseReservoirConfig(right) : null), [right]);
+
+  const sides = [
+    { label: 'Left reservoir', reservoir: left, graph: leftGraph, selectedId: leftId, onChange: onLeftChange },
+    { label: 'Right reservoir', reservoir: right, graph: rightGraph, selectedId: rightId, onChange: onRightChange },
+  ];
+  const sharedKeys = new Set(comparison?.shared.map((c) => c.key));
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <div style={{ display: 'flex', flex: 1, minHeight: 0 }}>
+        {sides.map(({ label, reservoir, graph, selectedId, onChange }, i) => (
+          <div
+            key={label}
+            style={{
+              flex: 1,
+              minWidth: 0,
+              display: 'flex',
+              flexDirection: 'column',
+              borderLeft: i === 0 ? 'none' : `1px solid ${theme.chrome.divider}`,
+            }}
+          >
+            <div
+              style={{
+                padding: '8px 12px',
+                background: theme.chrome.surface,
+                borderBottom: `1px solid ${theme.chrome.divider}`,
+              }}
+            >
+              <select
+                value={selectedId}
+                onChange={(e) => onChange(Number(e.target.value))}
+                aria-label={label}
+                style={{
+                  ...SELECT_STYLE,
+                  border: `1px solid ${theme.chrome.border}`,
+                  background: theme.chrome.surface,
+                  color: theme.chrome.text,
+                }}
+              >
+                {reservoirs.map((r) => (
+                  <option key={r.reservoir_id} value={r.reservoir_id}>
+                    {r.reservoir_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div style={{ flex: 1, minHeight: 0 }}>
+              {graph && reservoir && (
+                <ReservoirGraph
+                  data={graph}
+                  layoutStrategy={layoutStrategy}
+                  linkWidthMode={linkWidthMode}
+                  layoutKey={String(reservoir.reservoir_id)}
+                  exportName={reservoir.reservoir_name}
+                  highlightNodeIds={graph.nodes
+                    .filter((n) => n.type !== 'main_reservoir' && sharedKeys.has(normalizeReservoirName(n.label)))
+                    .map((n) => n.id)}
+                  zoomTransform={zoom}
+                  onZoomChange={setZoom}
+                  onNodeMove={onNodeMove && ((move) => onNodeMove(move, reservoir.reservoir_id))}
+                  positionsRevision={positionsRevision}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {comparison && left && right && (
+        <div
+          aria-label="Comparison"
+          style={{
+            display: 'flex',
+            gap: '24px',
+            maxHeight: '180px',
+            overflowY: 'auto',
+            padding: '12px 24px',
+            background: theme.chrome.surface,
+            borderTop: `1px solid ${theme.chrome.divider}`,
+            fontSize: '13px',
+            color: theme.chrome.text,
+          }}
+        >
+          <ConnectionList
+            title="Shared"
+            connections={comparison.shared}
+            describe={(c) => `${c.left.join(', ')} / ${c.right.join(', ')}`}
+            swatch={theme.graph.highlightRing}
+          />
+          <ConnectionList
+            title={`Only in ${left.reservoir_name}`}
+            connections={comparison.leftOnly}
+            describe={(c) => c.left.join(', ')}
+          />
+          <ConnectionList
+            title={`Only in ${right.reservoir_name}`}
+            connections={comparison.rightOnly}
+            describe={(c) => c.right.join(', ')}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import ConnectionTable from './ConnectionTable';
+import type { IGraphData } from '@data/reservoirData';
+
+describe('ConnectionTable', () => {
+  const data: IGraphData = {
+    nodes: [
+      { id: 'lake', label: 'Emerald Lake', type: 'main_reservoir' },
+      { id: 'upper', label: 'Upper Lake', type: 'main_reservoir' },
+      { id: 'creek', label: 'Stone Creek', type: 'inflow' },
+      { id: 'canal', label: 'Main Canal', type: 'outflow' },
+      { id: 'plant', label: 'Hydro Plant', type: 'project' },
+    ],
+    links: [
+      { source: 'upper', target: 'lake' },
+      { source: 'creek', target: 'lake' },
+      { source: 'lake', target: 'canal' },
+      { source: 'lake', target: 'plant' },
+    ],
+  };
+
+  const nodeColumn = () =>
+    screen
+      .getAllByRole('row')
+      .slice(1)
+      .map((row) => within(row).getAllByRole('cell')[0].textContent);
+
+  it('should list each connection with its type, direction and reservoir', () => {
+    render(<ConnectionTable data={data} selectedNodeId={null} onSelectNode={vi.fn()} />);
+
+    const canal = within(screen.getByText('Main Canal').closest('tr') as HTMLElement);
+    expect(canal.getByText('Outflow')).toBeInTheDocument();
+    expect(canal.getByText('Out')).toBeInTheDocument();
+    expect(canal.getByText('Emerald Lake')).toBeInTheDocument();
+    expect(screen.getByText('4 of 4 connections')).toBeInTheDocument();
+  });
+
+  it('should sort by a column, reversing on a second click', () => {
+    render(<ConnectionTable data={data} selectedNodeId={null} onSelectNode={vi.fn()} />);
+    expect(nodeColumn()).toEqual(['Hydro Plant', 'Main Canal', 'Stone Creek', 'Upper Lake']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Type' }));
+    expect(nodeColumn()).toEqual(['Stone Creek', 'Main Canal', 'Hydro Plant', 'Upper Lake']);
+
+    fireEvent.click(screen.getByRole('button', { name: /Type/ }));
+    expect(nodeColumn()).toEqual(['Upper Lake', 'Hydro Plant', 'Main Canal', 'Stone Creek']);
+    expect(screen.getByRole('columnheader', { name: /Type/ })).toHaveAttribute('aria-sort', 'descending');
+  });
+
+  it('should filter by name and type', () => {
+    render(<ConnectionTable data={data} selectedNodeId={null} onSelectNode={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Filter connections'), { target: { value: 'lake' } });
+    expect(nodeColumn()).toHaveLength(4);
+
+    fireEvent.change(screen.getByLabelText('Filter connections'), { target: { value: 'creek' } });
+    expect(nodeColumn()).toEqual(['Stone Creek']);
+
+    fireEvent.change(screen.getByLabelText('Filter connections'), { target: { value: '' } });
+    fireEvent.change(screen.getByLabelText('Type'), { target: { value: 'main_reservoir' } });
+    expect(nodeColumn()).toEqual(['Upper Lake']);
+  });
+
+  it('should select a node from its row', () => {
+    const onSelectNode = vi.fn();
+    render(<ConnectionTable data={data} selectedNodeId="plant" onSelectNode={onSelectNode} />);
+
+    expect(screen.getByRole('button', { name: 'Hydro Plant' })).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.click(screen.getByText('Inflow'));
+    expect(onSelectNode).toHaveBeenCalledWith('creek');
+    fireEvent.click(screen.getByRole('button', { name: 'Main Canal' }));
+    expect(onSelectNode).toHaveBeenLastCalledWith('canal');
+    expect(onSelectNode).toHaveBeenCalledTimes(2);
+  });
+});
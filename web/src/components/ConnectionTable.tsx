@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import { listConnections } from '@data/reservoirNetwork';
+import type { GraphConnection } from '@data/reservoirNetwork';
+import type { IGraphData, INode } from '@data/reservoirData';
+import { getNodeType, listNodeTypes } from '@data/nodeTypes';
+import { useTheme } from './theme';
+
+interface ConnectionTableProps {
+  data: IGraphData;
+  selectedNodeId: string | null;
+  onSelectNode: (nodeId: string) => void;
+}
+
+type SortKey = 'node' | 'type' | 'direction' | 'reservoir';
+
+const DIRECTION_LABELS: Record<GraphConnection['direction'], string> = {
+  in: 'In',
+  out: 'Out',
+};
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'node', label: 'Node' },
+  { key: 'type', label: 'Type' },
+  { key: 'direction', label: 'Direction' },
+  { key: 'reservoir', label: 'Connected reservoir' },
+];
+
+// The text each column shows, which is also what it sorts by
+const CELL_TEXT: Record<SortKey, (row: GraphConnection) => string> = {
+  node: (row) => row.node.label,
+  type: (row) => getNodeType(row.node.type).label,
+  direction: (row) => DIRECTION_LABELS[row.direction],
+  reservoir: (row) => row.reservoir.label,
+};
+
+const CELL_STYLE: React.CSSProperties = {
+  padding: '8px 12px',
+  textAlign: 'left',
+};
+
+const PLAIN_BUTTON_STYLE: React.CSSProperties = {
+  border: 'none',
+  background: 'none',
+  padding: 0,
+  font: 'inherit',
+  fontWeight: 600,
+  color: 'inherit',
+  cursor: 'pointer',
+};
+
+const CONTROL_STYLE: React.CSSProperties = {
+  padding: '8px 12px',
+  fontSize: '14px',
+  borderRadius: '6px',
+};
+
+const ConnectionTable = ({ data, selectedNodeId, onSelectNode }: ConnectionTableProps) => {
+  const { theme } = useTheme();
+  const [filter, setFilter] = useState('');
+  const [type, setType] = useState<INode['type'] | 'all'>('all');
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'node', ascending: true });
+
+  const connections = useMemo(() => listConnections(data), [data]);
+  // Only the types in this network are offered as filters, in registry order
+  const types = useMemo(() => {
+    const shown = new Set(connections.map((row) => row.node.type));
+    return [...new Set([...listNodeTypes(), ...shown])].filter((t) => shown.has(t));
+  }, [connections]);
+
+  // The filter matches either end of a connection
+  const query = filter.trim().toLowerCase();
+  const rows = connections
+    .filter((row) => type === 'all' || row.node.type === type)
+    .filter((row) => [row.node.label, row.reservoir.label].some((label) => label.toLowerCase().includes(query)))
+    .sort((a, b) => {
+      const order = CELL_TEXT[sort.key](a).localeCompare(CELL_TEXT[sort.key](b));
+      return sort.ascending ? order : -order;
+    });
+
+  const toggleSort = (key: SortKey) =>
+    setSort((current) => ({ key, ascending: current.key === key ? !current.ascending : true }));
+
+  const cellStyle = { ...CELL_STYLE, borderBottom: `1px solid ${theme.chrome.divider}` };
+  const controlStyle: React.CSSProperties = {
+    ...CONTROL_STYLE,
+    border: `1px solid ${theme.chrome.border}`,
+    background: theme.chrome.surface,
+    color: theme.chrome.text,
+  };
+
+  return (
+    <div
+      style={{
+        height: '100%',
+        overflowY: 'auto',
+        padding: '16px 24px',
+        background: theme.chrome.surface,
+        fontSize: '13px',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '12px' }}>
+        <input
+          type="search"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter by name…"
+          aria-label="Filter connections"
+          style={{ ...controlStyle, width: '240px' }}
+        />
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as INode['type'] | 'all')}
+          aria-label="Type"
+          style={{ ...controlStyle, cursor: 'pointer' }}
+        >
+          <option value="all">All types</option>
+          {types.map((t) => (
+            <option key={t} value={t}>
+              {getNodeType(t).legendLabel}
+            </option>
+          ))}
+        </select>
+        <span style={{ color: theme.chrome.mutedText }}>
+          {rows.length} of {connections.length} connections
+        </span>
+      </div>
+
+      <table style={{ width: '100%', borderCollapse: 'collapse', color: theme.chrome.text }}>
+        <thead>
+          <tr style={{ color: theme.chrome.mutedText }}>
+            {COLUMNS.map(({ key, label }) => (
+              <th
+                key={key}
+                style={cellStyle}
+                aria-sort={sort.key === key ? (sort.ascending ? 'ascending' : 'descending') : undefined}
+              >
+                <button onClick={() => toggleSort(key)} style={PLAIN_BUTTON_STYLE}>
+                  {label}
+                  {sort.key === key && (sort.ascending ? ' ▲' : ' ▼')}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const isSelected = row.node.id === selectedNodeId;
+            return (
+              <tr
+                key={`${row.node.id}->${row.reservoir.id}`}
+                onClick={() => onSelectNode(row.node.id)}
+                style={{ cursor: 'pointer', background: isSelected ? theme.chrome.selection : undefined }}
+              >
+                <td style={cellStyle}>
+                  {/* A real button keeps selection reachable from the keyboard */}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onSelectNode(row.node.id);
+                    }}
+                    aria-pressed={isSelected}
+                    style={{ ...PLAIN_BUTTON_STYLE, fontWeight: isSelected ? 600 : 'normal' }}
+                  >
+                    {CELL_TEXT.node(row)}
+                  </button>
+                </td>
+                <td style={cellStyle}>{CELL_TEXT.type(row)}</td>
+                <td style={cellStyle}>{CELL_TEXT.direction(row)}</td>
+                <td style={cellStyle}>{CELL_TEXT.reservoir(row)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {rows.length === 0 && (
+        <div style={{ padding: '12px', color: theme.chrome.mutedText }}>No matching connections</div>
+      )}
+    </div>
+  );
+};
+
+export default ConnectionTable;
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import DiagnosticsPanel from './DiagnosticsPanel';
+import type { ValidationIssue } from '@data/reservoirValidation';
+
+describe('DiagnosticsPanel', () => {
+  const issues: ValidationIssue[] = [
+    { severity: 'error', reservoirId: 101, field: 'inflow[0].id', message: 'Connection id must be a non-empty string' },
+    { severity: 'warning', reservoirId: 105, field: 'outflow[1].type', message: 'Unknown node type "weir"' },
+    { severity: 'warning', field: 'reservoirs', message: 'Duplicate reservoir name' },
+  ];
+
+  const items = () =>
+    within(screen.getByRole('list'))
+      .getAllByRole('listitem')
+      .map((item) => item.textContent);
+
+  it('should count errors and warnings and list each under its severity', () => {
+    render(<DiagnosticsPanel issues={issues} />);
+
+    expect(screen.getByRole('button', { name: /Data diagnostics: 1 error, 2 warnings/ })).toBeInTheDocument();
+    expect(screen.getAllByLabelText('error')).toHaveLength(1);
+    expect(screen.getAllByLabelText('warning')).toHaveLength(2);
+    expect(items()).toEqual([
+      '✕Reservoir 101 · inflow[0].idConnection id must be a non-empty string',
+      '!Reservoir 105 · outflow[1].typeUnknown node type "weir"',
+      '!reservoirsDuplicate reservoir name',
+    ]);
+  });
+
+  it('should open by default only when there are errors', () => {
+    const warnings = issues.filter((issue) => issue.severity === 'warning');
+    render(<DiagnosticsPanel issues={warnings} />);
+
+    const toggle = screen.getByRole('button', { name: /0 errors, 2 warnings/ });
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByRole('list')).not.toBeInTheDocument();
+
+    fireEvent.click(toggle);
+    expect(toggle).toHaveAttribute('aria-expanded', 'true');
+    expect(items()).toHaveLength(2);
+  });
+
+  it('should link issues to their reservoir', () => {
+    const onSelectReservoir = vi.fn();
+    render(<DiagnosticsPanel issues={issues} onSelectReservoir={onSelectReservoir} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reservoir 105 · outflow[1].type' }));
+    expect(onSelectReservoir).toHaveBeenCalledWith(105);
+    // Issues without a reservoir have nothing to link to
+    expect(screen.queryByRole('button', { name: 'reservoirs' })).not.toBeInTheDocument();
+  });
+
+  it('should render nothing without issues', () => {
+    const { container } = render(<DiagnosticsPanel issues={[]} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import type { ValidationIssue } from '@data/reservoirValidation';
+import { useTheme } from './theme';
+import type { Theme } from './theme';
+
+interface DiagnosticsPanelProps {
+  issues: ValidationIssue[];
+  onSelectReservoir?: (reservoirId: number) => void;
+}
+
+const severityStyles = ({ chrome }: Theme) =>
+  ({
+    error: { color: chrome.error, background: chrome.errorBackground, icon: '✕' },
+    warning: { color: chrome.warning, background: chrome.warningBackground, icon: '!' },
+  }) as const;
+
+const DiagnosticsPanel = ({ issues, onSelectReservoir }: DiagnosticsPanelProps) => {
+  const { theme } = useTheme();
+  const errorCount = issues.filter((i) => i.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+  // Errors open the panel straight away; warnings wait to be asked for
+  const [expanded, setExpanded] = useState(errorCount > 0);
+
+  if (issues.length === 0) return null;
+
+  const severityStyle = severityStyles(theme);
+  const summaryStyle = errorCount > 0 ? severityStyle.error : severityStyle.warning;
+
+  return (
+    <div
+      role="region"
+      aria-label="Data diagnostics"
+      style={{
+        background: summaryStyle.background,
+        borderBottom: `1px solid ${theme.chrome.divider}`,
+        padding: '8px 24px',
+        fontSize: '13px',
+      }}
+    >
+      <button
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+        style={{
+          border: 'none',
+          background: 'none',
+          padding: 0,
+          cursor: 'pointer',
+          fontSize: '13px',
+          fontWeight: 600,
+          color: summaryStyle.color,
+        }}
+      >
+        {expanded ? '▾' : '▸'} Data diagnostics: {errorCount} error{errorCount === 1 ? '' : 's'},{' '}
+        {warningCount} warning{warningCount === 1 ? '' : 's'}
+      </button>
+
+      {expanded && (
+        <ul style={{ listStyle: 'none', margin: '8px 0 0', padding: 0, maxHeight: '160px', overflowY: 'auto' }}>
+          {issues.map((issue, i) => {
+            const style = severityStyle[issue.severity];
+            const location = [
+              issue.reservoirId !== undefined ? `Reservoir ${issue.reservoirId}` : null,
+              issue.field,
+            ]
+              .filter(Boolean)
+              .join(' · ');
+
+            return (
+              <li key={i} style={{ display: 'flex', gap: '8px', padding: '2px 0', color: theme.chrome.text }}>
+                <span style={{ color: style.color, fontWeight: 700, width: '12px' }} aria-label={issue.severity}>
+                  {style.icon}
+                </span>
+                {location &&
+                  (issue.reservoirId !== undefined && onSelectReservoir ? (
+                    <button
+                      onClick={() => onSelectReservoir(issue.reservoirId!)}
+                      style={{
+                        border: 'none',
+                        background: 'none',
+                        padding: 0,
+                        cursor: 'pointer',
+                        fontSize: '13px',
+                        color: theme.chrome.link,
+                        textDecoration: 'underline',
+                      }}
+                    >
+                      {location}
+                    </button>
+                  ) : (
+                    <span style={{ color: theme.chrome.mutedText }}>{location}</span>
+                  ))}
+                <span>{issue.message}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import DownloadMenu from './DownloadMenu';
+import { downloadBlob } from './graphExport';
+import { GRAPH_FORMATS } from '@data/graphFormats';
+import type { GraphFormat } from '@data/graphFormats';
+import type { IGraphData } from '@data/reservoirData';
+
+// Saving needs a real browser; here it only needs to record what was saved
+vi.mock('./graphExport', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./graphExport')>()),
+  downloadBlob: vi.fn(),
+}));
+
+describe('DownloadMenu', () => {
+  const reservoirGraph: IGraphData = {
+    nodes: [{ id: 'reservoir_101', label: 'Emerald Lake', type: 'main_reservoir' }],
+    links: [],
+  };
+  const datasetGraph: IGraphData = {
+    nodes: [...reservoirGraph.nodes, { id: 'reservoir_105', label: 'Blue Lake', type: 'main_reservoir' }],
+    links: [{ source: 'reservoir_101', target: 'reservoir_105' }],
+  };
+  const getGraph = vi.fn((scope: string) => (scope === 'dataset' ? datasetGraph : reservoirGraph));
+
+  const choose = (name: RegExp) => {
+    fireEvent.click(screen.getByRole('button', { name: 'Download ▾' }));
+    fireEvent.click(screen.getByRole('menuitem', { name }));
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(downloadBlob).mockClear();
+  });
+
+  it('should save each format under the reservoir name with its serializer', () => {
+    render(<DownloadMenu reservoirName="Emerald Lake" getGraph={getGraph} />);
+
+    const expected: [GraphFormat, RegExp, string][] = [
+      ['graphml', /GraphML/, 'emerald-lake.graphml'],
+      ['dot', /Graphviz DOT/, 'emerald-lake.dot'],
+      ['mermaid', /Mermaid/, 'emerald-lake.mmd'],
+    ];
+    expected.forEach(([format, name, fileName]) => {
+      const serialize = vi.spyOn(GRAPH_FORMATS[format], 'serialize').mockReturnValue(`${format} text`);
+      choose(name);
+
+      expect(serialize).toHaveBeenCalledWith(reservoirGraph, 'Emerald Lake');
+      const [blob, savedAs] = vi.mocked(downloadBlob).mock.lastCall!;
+      expect(savedAs).toBe(fileName);
+      expect(blob.type).toBe(GRAPH_FORMATS[format].mimeType);
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    });
+    expect(downloadBlob).toHaveBeenCalledTimes(3);
+  });
+
+  it('should save the whole dataset under the dataset name', () => {
+    render(<DownloadMenu reservoirName="Emerald Lake" getGraph={getGraph} />);
+    const serialize = vi.spyOn(GRAPH_FORMATS.dot, 'serialize');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Download ▾' }));
+    fireEvent.click(screen.getByLabelText('Whole dataset'));
+    fireEvent.click(screen.getByRole('menuitem', { name: /Graphviz DOT/ }));
+
+    expect(getGraph).toHaveBeenLastCalledWith('dataset');
+    expect(serialize).toHaveBeenCalledWith(datasetGraph, 'Reservoir network');
+    expect(vi.mocked(downloadBlob).mock.lastCall![1]).toBe('reservoir-network.dot');
+  });
+});
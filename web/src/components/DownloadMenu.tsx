@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import type { IGraphData } from '@data/reservoirData';
+import { GRAPH_FORMATS } from '@data/graphFormats';
+import type { GraphFormat } from '@data/graphFormats';
+import { downloadBlob, exportFileName } from './graphExport';
+import { useTheme } from './theme';
+
+export type DownloadScope = 'reservoir' | 'dataset';
+
+interface DownloadMenuProps {
+  reservoirName: string;
+  getGraph: (scope: DownloadScope) => IGraphData; // Built on demand; the whole dataset can be large
+}
+
+const MENU_BUTTON_STYLE: React.CSSProperties = {
+  padding: '8px 12px',
+  fontSize: '14px',
+  borderRadius: '6px',
+  cursor: 'pointer',
+};
+
+const DATASET_NAME = 'Reservoir network';
+
+const DownloadMenu = ({ reservoirName, getGraph }: DownloadMenuProps) => {
+  const { theme } = useTheme();
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<DownloadScope>('reservoir');
+
+  const handleDownload = (format: GraphFormat) => {
+    const { extension, mimeType, serialize } = GRAPH_FORMATS[format];
+    const name = scope === 'reservoir' ? reservoirName : DATASET_NAME;
+    const text = serialize(getGraph(scope), name);
+    downloadBlob(new Blob([text], { type: mimeType }), exportFileName(name, extension));
+    setIsOpen(false);
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    ...MENU_BUTTON_STYLE,
+    border: `1px solid ${theme.chrome.border}`,
+    background: theme.chrome.surface,
+    color: theme.chrome.text,
+  };
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        style={buttonStyle}
+      >
+        Download ▾
+      </button>
+      {isOpen && (
+        <div
+          role="menu"
+          aria-label="Download graph"
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 4px)',
+            right: 0,
+            zIndex: 5,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '6px',
+            minWidth: '200px',
+            padding: '10px 12px',
+            background: theme.chrome.surface,
+            border: `1px solid ${theme.chrome.border}`,
+            borderRadius: '6px',
+            boxShadow: `0 2px 8px ${theme.chrome.shadow}`,
+            fontSize: '13px',
+            color: theme.chrome.text,
+          }}
+        >
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <input
+              type="radio"
+              name="download-scope"
+              checked={scope === 'reservoir'}
+              onChange={() => setScope('reservoir')}
+            />
+            Selected reservoir
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <input
+              type="radio"
+              name="download-scope"
+              checked={scope === 'dataset'}
+              onChange={() => setScope('dataset')}
+            />
+            Whole dataset
+          </label>
+          {(Object.keys(GRAPH_FORMATS) as GraphFormat[]).map((format) => (
+            <button
+              key={format}
+              role="menuitem"
+              onClick={() => handleDownload(format)}
+              style={{ ...buttonStyle, padding: '6px 10px', fontSize: '13px', textAlign: 'left' }}
+            >
+              {GRAPH_FORMATS[format].label} (.{GRAPH_FORMATS[format].extension})
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DownloadMenu;
@@ -0,0 +1,111 @@
+import type { ReservoirConfig } from '@data/reservoirData';
+import type { ConflictResolution } from '@data/reservoirImport';
+import { useTheme } from './theme';
+
+interface ImportDialogProps {
+  fileName: string;
+  reservoirs: ReservoirConfig[];
+  conflictingIds: number[];
+  onReplace: () => void;
+  onMerge: (resolution: ConflictResolution) => void;
+  onCancel: () => void;
+}
+
+const DIALOG_BUTTON_STYLE: React.CSSProperties = {
+  padding: '8px 14px',
+  fontSize: '14px',
+  borderRadius: '6px',
+  cursor: 'pointer',
+};
+
+const ImportDialog = ({
+  fileName,
+  reservoirs,
+  conflictingIds,
+  onReplace,
+  onMerge,
+  onCancel,
+}: ImportDialogProps) => {
+  const { theme } = useTheme();
+  const hasConflicts = conflictingIds.length > 0;
+
+  const buttonStyle: React.CSSProperties = {
+    ...DIALOG_BUTTON_STYLE,
+    border: `1px solid ${theme.chrome.border}`,
+    background: theme.chrome.surface,
+    color: theme.chrome.text,
+  };
+  const primaryButtonStyle: React.CSSProperties = {
+    ...DIALOG_BUTTON_STYLE,
+    border: `1px solid ${theme.chrome.link}`,
+    background: theme.chrome.accent,
+    color: theme.chrome.accentText,
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: theme.chrome.backdrop,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 10,
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-dialog-title"
+        style={{
+          background: theme.chrome.surface,
+          borderRadius: '8px',
+          boxShadow: `0 4px 16px ${theme.chrome.shadow}`,
+          padding: '20px 24px',
+          width: '440px',
+          fontSize: '14px',
+          color: theme.chrome.text,
+        }}
+      >
+        <h2 id="import-dialog-title" style={{ margin: '0 0 8px', fontSize: '16px' }}>
+          Import {fileName}
+        </h2>
+        <p style={{ margin: '0 0 8px' }}>
+          Found {reservoirs.length} reservoir{reservoirs.length === 1 ? '' : 's'}.
+        </p>
+        {hasConflicts && (
+          <p style={{ margin: '0 0 8px', color: theme.chrome.warning }}>
+            {conflictingIds.length} reservoir id{conflictingIds.length === 1 ? '' : 's'} already
+            exist: {conflictingIds.join(', ')}
+          </p>
+        )}
+
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginTop: '16px' }}>
+          {hasConflicts ? (
+            <>
+              <button onClick={() => onMerge('overwrite')} style={primaryButtonStyle}>
+                Merge, overwrite existing
+              </button>
+              <button onClick={() => onMerge('keep')} style={buttonStyle}>
+                Merge, keep existing
+              </button>
+            </>
+          ) : (
+            <button onClick={() => onMerge('keep')} style={primaryButtonStyle}>
+              Merge
+            </button>
+          )}
+          <button onClick={onReplace} style={buttonStyle}>
+            Replace all
+          </button>
+          <button onClick={onCancel} style={{ ...buttonStyle, marginLeft: 'auto' }}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import NodeDetailPanel from './NodeDetailPanel';
+import type { ReservoirConfig } from '@data/reservoirData';
+
+describe('NodeDetailPanel', () => {
+  const labels: Record<string, string> = { reservoir_1: 'Emerald Lake', inflow_1_creek: 'Creek' };
+  const labelOf = (id: string) => labels[id] ?? id;
+
+  it('should show a connection with its attributes, links and references', () => {
+    const onSelectReservoir = vi.fn();
+    render(
+      <NodeDetailPanel
+        node={{ id: 'inflow_1_creek', label: 'Creek', type: 'inflow', attributes: { river_km: 12 } }}
+        links={[{ source: 'inflow_1_creek', target: 'reservoir_1', flow: { value: 3, unit: 'm3/s' } }]}
+        labelOf={labelOf}
+        references={[{ reservoirId: 2, reservoirName: 'Lower Lake', field: 'outflow' }]}
+        onSelectReservoir={onSelectReservoir}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Inflow')).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Creek' })).toBeInTheDocument();
+    expect(screen.getByText('river_km')).toBeInTheDocument();
+    expect(screen.getByText('Creek → Emerald Lake')).toBeInTheDocument();
+    expect(screen.getByText('(3 m3/s)')).toBeInTheDocument();
+    expect(screen.queryByText('Configuration')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Lower Lake' }));
+    expect(onSelectReservoir).toHaveBeenCalledWith(2);
+  });
+
+  it('should show the full configuration of a main reservoir', () => {
+    const reservoir: ReservoirConfig = {
+      reservoir_id: 1,
+      reservoir_name: 'Emerald Lake',
+      inflow: [{ id: 'creek', name: 'Creek' }],
+      outflow: [],
+      projects: [],
+    };
+    render(
+      <NodeDetailPanel
+        node={{ id: 'reservoir_1', label: 'Emerald Lake', type: 'main_reservoir' }}
+        links={[]}
+        labelOf={labelOf}
+        reservoir={reservoir}
+        references={[]}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Main reservoir')).toBeInTheDocument();
+    expect(screen.getByText('No other reservoirs')).toBeInTheDocument();
+    expect(screen.getByText(/"reservoir_name": "Emerald Lake"/)).toBeInTheDocument();
+  });
+
+  it('should close', () => {
+    const onClose = vi.fn();
+    render(
+      <NodeDetailPanel
+        node={{ id: 'reservoir_1', label: 'Emerald Lake', type: 'main_reservoir' }}
+        links={[]}
+        labelOf={labelOf}
+        references={[]}
+        onClose={onClose}
+      />
+    );
+
+    fireEvent.click(screen.getByLabelText('Close details'));
+    expect(onClose).toHaveBeenCalled();
+  });
+});
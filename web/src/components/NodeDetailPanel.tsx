@@ -0,0 +1,166 @@
+import { formatFlow } from '@data/flowUnits';
+import type { ILink, INode, ReservoirConfig } from '@data/reservoirData';
+import type { NameReference } from '@data/reservoirNetwork';
+import { getNodeType } from '@data/nodeTypes';
+import { getLinkKind } from '@data/linkKinds';
+import { useTheme } from './theme';
+
+interface NodeDetailPanelProps {
+  node: INode;
+  links: ILink[]; // Links the node takes part in
+  labelOf: (nodeId: string) => string;
+  reservoir?: ReservoirConfig; // Full configuration, for main-reservoir nodes
+  references: NameReference[]; // Other reservoirs that use the node's name
+  onSelectReservoir?: (reservoirId: number) => void;
+  onClose: () => void;
+}
+
+// Reservoir nodes are the main node of their own graph; other types use the registry's label
+const typeLabel = (type: INode['type']) => (type === 'main_reservoir' ? 'Main reservoir' : getNodeType(type).label);
+
+const FIELD_LABELS: Record<NameReference['field'], string> = {
+  reservoir_name: 'reservoir',
+  inflow: 'inflow',
+  outflow: 'outflow',
+  projects: 'project',
+};
+
+const SECTION_TITLE_STYLE: React.CSSProperties = {
+  margin: '16px 0 6px',
+  fontSize: '13px',
+  fontWeight: 600,
+};
+
+const LIST_STYLE: React.CSSProperties = {
+  listStyle: 'none',
+  margin: 0,
+  padding: 0,
+};
+
+const NodeDetailPanel = ({
+  node,
+  links,
+  labelOf,
+  reservoir,
+  references,
+  onSelectReservoir,
+  onClose,
+}: NodeDetailPanelProps) => {
+  const { theme } = useTheme();
+  const attributes = Object.entries(node.attributes ?? {});
+  const sectionTitleStyle = { ...SECTION_TITLE_STYLE, color: theme.chrome.mutedText };
+  const mutedStyle = { color: theme.chrome.mutedText };
+
+  return (
+    <aside
+      aria-label="Node details"
+      style={{
+        width: '300px',
+        padding: '16px',
+        background: theme.chrome.surface,
+        borderLeft: `1px solid ${theme.chrome.divider}`,
+        fontSize: '13px',
+        color: theme.chrome.text,
+        overflowY: 'auto',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'flex-start', gap: '8px' }}>
+        <div style={{ flex: 1 }}>
+          <div style={{ ...mutedStyle, marginBottom: '4px' }}>{typeLabel(node.type)}</div>
+          <h2 style={{ margin: 0, fontSize: '15px' }}>{node.label}</h2>
+        </div>
+        <button
+          onClick={onClose}
+          title="Close"
+          aria-label="Close details"
+          style={{ border: 'none', background: 'none', cursor: 'pointer', fontSize: '16px', ...mutedStyle }}
+        >
+          ✕
+        </button>
+      </div>
+
+      {attributes.length > 0 && (
+        <>
+          <h3 style={sectionTitleStyle}>Attributes</h3>
+          <dl style={{ margin: 0, display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '4px 12px' }}>
+            {attributes.map(([key, value]) => (
+              <div key={key} style={{ display: 'contents' }}>
+                <dt style={mutedStyle}>{key}</dt>
+                <dd style={{ margin: 0 }}>{String(value)}</dd>
+              </div>
+            ))}
+          </dl>
+        </>
+      )}
+
+      <h3 style={sectionTitleStyle}>Links</h3>
+      {links.length === 0 ? (
+        <div style={mutedStyle}>None</div>
+      ) : (
+        <ul style={LIST_STYLE}>
+          {links.map((link) => {
+            const details = [
+              link.label,
+              link.kind && getLinkKind(link.kind).label,
+              link.flow && formatFlow(link.flow),
+            ].filter(Boolean);
+            return (
+              <li key={`${link.source}->${link.target}`} style={{ padding: '2px 0' }}>
+                {labelOf(link.source)} → {labelOf(link.target)}
+                {details.length > 0 && <span style={mutedStyle}> ({details.join(', ')})</span>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <h3 style={sectionTitleStyle}>Also referenced by</h3>
+      {references.length === 0 ? (
+        <div style={mutedStyle}>No other reservoirs</div>
+      ) : (
+        <ul style={LIST_STYLE}>
+          {references.map((reference) => (
+            <li key={`${reference.reservoirId}:${reference.field}`} style={{ padding: '2px 0' }}>
+              <button
+                onClick={() => onSelectReservoir?.(reference.reservoirId)}
+                disabled={!onSelectReservoir}
+                style={{
+                  border: 'none',
+                  background: 'none',
+                  padding: 0,
+                  color: theme.chrome.link,
+                  textDecoration: 'underline',
+                  cursor: 'pointer',
+                  fontSize: '13px',
+                }}
+              >
+                {reference.reservoirName}
+              </button>{' '}
+              <span style={mutedStyle}>as {FIELD_LABELS[reference.field]}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {reservoir && (
+        <>
+          <h3 style={sectionTitleStyle}>Configuration</h3>
+          <pre
+            style={{
+              margin: 0,
+              padding: '8px',
+              background: theme.graph.background,
+              borderRadius: '4px',
+              fontSize: '11px',
+              overflowX: 'auto',
+            }}
+          >
+            {JSON.stringify(reservoir, null, 2)}
+          </pre>
+        </>
+      )}
+    </aside>
+  );
+};
+
+export default NodeDetailPanel;
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import ReservoirEditor from './ReservoirEditor';
+import type { ReservoirConfig } from '@data/reservoirData';
+
+describe('ReservoirEditor', () => {
+  const reservoir: ReservoirConfig = {
+    reservoir_id: 1,
+    reservoir_name: 'Upper Lake',
+    inflow: [
+      { id: 'stone-creek', name: 'Stone Creek' },
+      { id: 'snow-melt', name: 'Snow Melt' },
+    ],
+    outflow: [],
+    projects: [],
+  };
+
+  const renderEditor = (overrides: Partial<React.ComponentProps<typeof ReservoirEditor>> = {}) => {
+    const props = {
+      reservoir,
+      issues: [],
+      canDownload: true,
+      onEdit: vi.fn(),
+      onCreateReservoir: vi.fn(),
+      onDownload: vi.fn(),
+      onClose: vi.fn(),
+      ...overrides,
+    };
+    render(<ReservoirEditor {...props} />);
+    return props;
+  };
+
+  it('should rename a connection once, when the input is committed', () => {
+    const { onEdit } = renderEditor();
+    const input = screen.getByLabelText('inflow 2 name');
+
+    fireEvent.change(input, { target: { value: 'Glacier Melt' } });
+    expect(onEdit).not.toHaveBeenCalled();
+    fireEvent.blur(input);
+
+    expect(onEdit).toHaveBeenCalledTimes(1);
+    expect(onEdit).toHaveBeenCalledWith({
+      type: 'rename-connection',
+      reservoirId: 1,
+      field: 'inflow',
+      connectionId: 'snow-melt',
+      name: 'Glacier Melt',
+    });
+  });
+
+  it('should rename the reservoir', () => {
+    const { onEdit } = renderEditor();
+    const input = screen.getByLabelText('Reservoir name');
+
+    fireEvent.change(input, { target: { value: 'High Lake' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    fireEvent.blur(input);
+
+    expect(onEdit).toHaveBeenCalledWith({ type: 'rename-reservoir', reservoirId: 1, name: 'High Lake' });
+  });
+
+  it('should add, reorder and delete connections', () => {
+    const { onEdit } = renderEditor();
+
+    fireEvent.change(screen.getByLabelText('New project name'), { target: { value: ' Hydro Plant ' } });
+    fireEvent.click(screen.getAllByRole('button', { name: 'Add' })[2]);
+    expect(onEdit).toHaveBeenLastCalledWith({
+      type: 'add-connection',
+      reservoirId: 1,
+      field: 'projects',
+      name: 'Hydro Plant',
+    });
+
+    expect(screen.getByLabelText('Move Stone Creek up')).toBeDisabled();
+    fireEvent.click(screen.getByLabelText('Move Stone Creek down'));
+    expect(onEdit).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'move-connection', connectionId: 'stone-creek', offset: 1 })
+    );
+
+    fireEvent.click(screen.getByLabelText('Delete Snow Melt'));
+    expect(onEdit).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'remove-connection', field: 'inflow', connectionId: 'snow-melt' })
+    );
+  });
+
+  it('should show problems and block downloading while there are errors', () => {
+    renderEditor({
+      canDownload: false,
+      issues: [
+        {
+          severity: 'error',
+          reservoirId: 1,
+          field: 'reservoir_name',
+          message: 'reservoir_name must be a non-empty string',
+        },
+      ],
+    });
+
+    expect(screen.getByText('reservoir_name must be a non-empty string')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Download JSON' })).toBeDisabled();
+  });
+});
@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import type { ReservoirConfig } from '@data/reservoirData';
+import type { ConnectionField, ReservoirEdit } from '@data/reservoirEditing';
+import type { ValidationIssue } from '@data/reservoirValidation';
+import { useTheme } from './theme';
+import type { Theme } from './theme';
+
+interface ReservoirEditorProps {
+  reservoir: ReservoirConfig;
+  issues: ValidationIssue[]; // Problems in the edited dataset that concern this reservoir
+  canDownload: boolean; // False while the dataset has errors
+  onEdit: (edit: ReservoirEdit) => void;
+  onCreateReservoir: () => void;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+const SECTIONS: { field: ConnectionField; title: string; noun: string }[] = [
+  { field: 'inflow', title: 'Inflows', noun: 'inflow' },
+  { field: 'outflow', title: 'Outflows', noun: 'outflow' },
+  { field: 'projects', title: 'Projects', noun: 'project' },
+];
+
+// Editor styles in the given theme's colors
+const editorStyles = ({ chrome }: Theme) => {
+  const sectionTitle: React.CSSProperties = {
+    margin: '16px 0 6px',
+    fontSize: '13px',
+    fontWeight: 600,
+    color: chrome.mutedText,
+  };
+
+  const input: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    padding: '4px 6px',
+    fontSize: '13px',
+    border: `1px solid ${chrome.border}`,
+    borderRadius: '4px',
+    background: chrome.surface,
+    color: chrome.text,
+  };
+
+  const iconButton: React.CSSProperties = {
+    width: '24px',
+    height: '24px',
+    padding: 0,
+    border: `1px solid ${chrome.divider}`,
+    borderRadius: '4px',
+    background: chrome.surface,
+    color: chrome.text,
+    cursor: 'pointer',
+    fontSize: '12px',
+  };
+
+  const button: React.CSSProperties = {
+    padding: '6px 10px',
+    fontSize: '13px',
+    border: `1px solid ${chrome.border}`,
+    borderRadius: '6px',
+    background: chrome.surface,
+    color: chrome.text,
+    cursor: 'pointer',
+  };
+
+  return { sectionTitle, input, iconButton, button };
+};
+
+/**
+ * A text input that reports its value on blur or Enter, so a rename is one edit
+ * rather than one per keystroke. Escape restores the committed value.
+ */
+const CommitInput = ({
+  value,
+  label,
+  onCommit,
+}: {
+  value: string;
+  label: string;
+  onCommit: (value: string) => void;
+}) => {
+  const styles = editorStyles(useTheme().theme);
+
+  return (
+    <input
+      // Remount when the committed value changes elsewhere, e.g. after a rename
+      key={value}
+      defaultValue={value}
+      aria-label={label}
+      onBlur={(e) => {
+        if (e.target.value !== value) onCommit(e.target.value);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          e.currentTarget.value = value;
+          e.currentTarget.blur();
+        }
+      }}
+      style={styles.input}
+    />
+  );
+};
+
+const ConnectionSection = ({
+  reservoir,
+  field,
+  title,
+  noun,
+  onEdit,
+}: {
+  reservoir: ReservoirConfig;
+  field: ConnectionField;
+  title: string;
+  noun: string;
+  onEdit: (edit: ReservoirEdit) => void;
+}) => {
+  const styles = editorStyles(useTheme().theme);
+  const [newName, setNewName] = useState('');
+  const connections = reservoir[field];
+  const reservoirId = reservoir.reservoir_id;
+
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    onEdit({ type: 'add-connection', reservoirId, field, name: newName.trim() });
+    setNewName('');
+  };
+
+  return (
+    <section>
+      <h3 style={styles.sectionTitle}>{title}</h3>
+      <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+        {connections.map((connection, i) => (
+          <li key={connection.id} style={{ display: 'flex', gap: '4px', padding: '2px 0' }}>
+            <CommitInput
+              value={connection.name}
+              label={`${noun} ${i + 1} name`}
+              onCommit={(name) =>
+                onEdit({ type: 'rename-connection', reservoirId, field, connectionId: connection.id, name })
+              }
+            />
+            <button
+              onClick={() =>
+                onEdit({ type: 'move-connection', reservoirId, field, connectionId: connection.id, offset: -1 })
+              }
+              disabled={i === 0}
+              title="Move up"
+              aria-label={`Move ${connection.name} up`}
+              style={styles.iconButton}
+            >
+              ↑
+            </button>
+            <button
+              onClick={() =>
+                onEdit({ type: 'move-connection', reservoirId, field, connectionId: connection.id, offset: 1 })
+              }
+              disabled={i === connections.length - 1}
+              title="Move down"
+              aria-label={`Move ${connection.name} down`}
+              style={styles.iconButton}
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => onEdit({ type: 'remove-connection', reservoirId, field, connectionId: connection.id })}
+              title="Delete"
+              aria-label={`Delete ${connection.name}`}
+              style={styles.iconButton}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div style={{ display: 'flex', gap: '4px', marginTop: '4px' }}>
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+          placeholder={`New ${noun}…`}
+          aria-label={`New ${noun} name`}
+          style={styles.input}
+        />
+        <button onClick={handleAdd} disabled={!newName.trim()} style={{ ...styles.button, padding: '4px 8px' }}>
+          Add
+        </button>
+      </div>
+    </section>
+  );
+};
+
+const ReservoirEditor = ({
+  reservoir,
+  issues,
+  canDownload,
+  onEdit,
+  onCreateReservoir,
+  onDownload,
+  onClose,
+}: ReservoirEditorProps) => {
+  const { theme } = useTheme();
+  const styles = editorStyles(theme);
+
+  return (
+    <aside
+      aria-label="Edit reservoir"
+      style={{
+        width: '320px',
+        padding: '16px',
+        background: theme.chrome.surface,
+        borderLeft: `1px solid ${theme.chrome.divider}`,
+        fontSize: '13px',
+        color: theme.chrome.text,
+        overflowY: 'auto',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <h2 style={{ flex: 1, margin: 0, fontSize: '15px' }}>Edit reservoir {reservoir.reservoir_id}</h2>
+        <button
+          onClick={onClose}
+          title="Close"
+          aria-label="Close editor"
+          style={{ border: 'none', background: 'none', cursor: 'pointer', fontSize: '16px', color: theme.chrome.mutedText }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <h3 style={styles.sectionTitle}>Name</h3>
+      <div style={{ display: 'flex' }}>
+        <CommitInput
+          value={reservoir.reservoir_name}
+          label="Reservoir name"
+          onCommit={(name) => onEdit({ type: 'rename-reservoir', reservoirId: reservoir.reservoir_id, name })}
+        />
+      </div>
+
+      {SECTIONS.map(({ field, title, noun }) => (
+        <ConnectionSection
+          key={`${reservoir.reservoir_id}:${field}`}
+          reservoir={reservoir}
+          field={field}
+          title={title}
+          noun={noun}
+          onEdit={onEdit}
+        />
+      ))}
+
+      {issues.length > 0 && (
+        <ul role="list" aria-label="Problems" style={{ listStyle: 'none', margin: '16px 0 0', padding: 0 }}>
+          {issues.map((issue, i) => (
+            <li key={i} style={{ padding: '2px 0', color: issue.severity === 'error' ? theme.chrome.error : theme.chrome.warning }}>
+              {issue.field && <strong>{issue.field}: </strong>}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div style={{ display: 'flex', gap: '8px', marginTop: '16px' }}>
+        <button onClick={onCreateReservoir} style={styles.button}>
+          New reservoir
+        </button>
+        <button
+          onClick={onDownload}
+          disabled={!canDownload}
+          title={canDownload ? 'Download the edited dataset' : 'Fix the errors before downloading'}
+          style={styles.button}
+        >
+          Download JSON
+        </button>
+      </div>
+    </aside>
+  );
+};
+
+export default ReservoirEditor;
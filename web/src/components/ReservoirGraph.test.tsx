@@ -1,14 +1,20 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
-import ReservoirGraph from './ReservoirGraph';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import { useState } from 'react';
+import ReservoirGraph, { describeNode } from './ReservoirGraph';
+import { LAYOUT, routeLink } from './graphLayout';
+import { THEMES, ThemeProvider, nodeColors } from './theme';
 import type { IGraphData } from '@data/reservoirData';
+import { registerLinkKind } from '@data/linkKinds';
 
-// Mock D3 to avoid issues with SVG rendering in tests
+// Mock D3 to avoid issues with SVG rendering in tests. Tests that check what is drawn
+// switch real selections back on with renderDrawn().
+const drawing = vi.hoisted(() => ({ real: false }));
 vi.mock('d3', async () => {
-  const actual = await vi.importActual('d3');
+  const actual = await vi.importActual<typeof import('d3')>('d3');
   return {
     ...actual,
-    select: vi.fn(() => ({
+    select: vi.fn((selector: string) => drawing.real ? actual.select(selector) : ({
       attr: vi.fn().mockReturnThis(),
       append: vi.fn().mockReturnThis(),
       selectAll: vi.fn().mockReturnThis(),
@@ -18,6 +24,12 @@ vi.mock('d3', async () => {
       on: vi.fn().mockReturnThis(),
       style: vi.fn().mockReturnThis(),
       text: vi.fn().mockReturnThis(),
+      datum: vi.fn().mockReturnThis(),
+      select: vi.fn().mockReturnThis(),
+      data: vi.fn().mockReturnThis(),
+      join: vi.fn().mockReturnThis(),
+      each: vi.fn().mockReturnThis(),
+      interrupt: vi.fn().mockReturnThis(),
       node: vi.fn(() => ({
         getComputedTextLength: () => 50,
       })),
@@ -25,6 +37,47 @@ vi.mock('d3', async () => {
   };
 });
 
+const translationOf = (element: Element | null) =>
+  (element?.getAttribute('transform') ?? '').match(/translate\(([-\d.e]+),\s*([-\d.e]+)\)/)!.slice(1).map(Number);
+
+// jsdom has no SVG layout: enough of one for d3's zoom, transform transitions and label measuring.
+// Transitions read transforms back as matrices, so translate and scale are parsed from the attribute.
+Object.defineProperties(SVGElement.prototype, {
+  getComputedTextLength: { value(this: SVGElement) { return (this.textContent ?? '').length * 7; } },
+  transform: {
+    get(this: SVGElement) {
+      const transform = this.getAttribute('transform') ?? '';
+      const [x, y] = transform.includes('translate') ? translationOf(this) : [0, 0];
+      const k = Number(transform.match(/scale\(([-\d.e]+)\)/)?.[1] ?? 1);
+      return { baseVal: { consolidate: () => ({ matrix: { a: k, b: 0, c: 0, d: k, e: x, f: y } }) } };
+    },
+  },
+});
+Object.defineProperties(SVGSVGElement.prototype, {
+  viewBox: {
+    get(this: SVGSVGElement) {
+      const [x, y, width, height] = (this.getAttribute('viewBox') ?? '0 0 800 600').split(' ').map(Number);
+      return { baseVal: { x, y, width, height } };
+    },
+  },
+  width: { get: () => ({ baseVal: { value: 800 } }) },
+  height: { get: () => ({ baseVal: { value: 600 } }) },
+});
+
+const nodeElement = (container: HTMLElement, label: string) =>
+  [...container.querySelectorAll('g.node')].find((g) => g.getAttribute('aria-label')?.includes(label)) ?? null;
+
+// Let transitions finish
+const settle = () => act(() => new Promise((resolve) => setTimeout(resolve, 800)));
+
+/** Render with real d3 selections, once the drawing has settled */
+const renderDrawn = async (ui: React.ReactElement) => {
+  drawing.real = true;
+  const result = render(ui);
+  await settle();
+  return result;
+};
+
 describe('ReservoirGraph', () => {
   const mockData: IGraphData = {
     nodes: [
@@ -49,6 +102,10 @@ describe('ReservoirGraph', () => {
     vi.clearAllMocks();
   });
 
+  afterEach(() => {
+    drawing.real = false;
+  });
+
   describe('Rendering', () => {
     it('should render the component without crashing', () => {
       const { container } = render(<ReservoirGraph data={mockData} />);
@@ -282,6 +339,401 @@ describe('ReservoirGraph', () => {
     });
   });
 
+  describe('Flow Mode', () => {
+    const flowData: IGraphData = {
+      nodes: mockData.nodes,
+      links: [
+        { source: 'inflow1', target: 'main', flow: { value: 12, unit: 'm3/s' } },
+        { source: 'main', target: 'outflow1', flow: { value: 500, unit: 'L/s' } },
+        { source: 'main', target: 'project1' },
+      ],
+    };
+
+    it('should render links scaled by flow', async () => {
+      const { container } = await renderDrawn(<ReservoirGraph data={flowData} linkWidthMode="flow" />);
+      const widths = [...container.querySelectorAll('path.link')].map((path) =>
+        Number(path.getAttribute('stroke-width'))
+      );
+
+      // 12 m3/s is the widest; 500 L/s is 0.5 m3/s; the link without a flow keeps the plain width
+      const { MIN_FLOW_LINK_WIDTH: min, MAX_FLOW_LINK_WIDTH: max } = LAYOUT;
+      expect(widths[0]).toBeCloseTo(max);
+      expect(widths[1]).toBeCloseTo(min + ((max - min) * 0.5) / 12);
+      expect(widths[2]).toBe(2);
+      expect(container.querySelectorAll('text.link-label')).toHaveLength(2);
+    });
+
+    it('should handle flows with unknown units', () => {
+      const unknownUnitData: IGraphData = {
+        nodes: mockData.nodes,
+        links: [{ source: 'inflow1', target: 'main', flow: { value: 3, unit: 'buckets/h' } }],
+      };
+
+      const { container } = render(<ReservoirGraph data={unknownUnitData} linkWidthMode="flow" />);
+      expect(container.querySelector('svg')).toBeInTheDocument();
+    });
+
+    it('should handle switching between link width modes', () => {
+      const { rerender, container } = render(<ReservoirGraph data={flowData} />);
+      rerender(<ReservoirGraph data={flowData} linkWidthMode="flow" />);
+      expect(container.querySelector('svg')).toBeInTheDocument();
+    });
+  });
+
+  describe('Saved Positions', () => {
+    it('should clear saved positions for the layout on reset', () => {
+      window.localStorage.setItem(
+        'reservoir-pedigree:positions:101:horizontal',
+        JSON.stringify({ main: { x: 5, y: 5 } })
+      );
+      window.localStorage.setItem('reservoir-pedigree:positions:101:radial', JSON.stringify({ main: { x: 1, y: 1 } }));
+
+      render(<ReservoirGraph data={mockData} layoutKey="101" />);
+      fireEvent.click(screen.getByTitle('Reset Layout'));
+
+      expect(window.localStorage.getItem('reservoir-pedigree:positions:101:horizontal')).toBeNull();
+      expect(window.localStorage.getItem('reservoir-pedigree:positions:101:radial')).not.toBeNull();
+      window.localStorage.clear();
+    });
+
+    it('should place nodes at their saved positions across redraws until reset', async () => {
+      window.localStorage.setItem(
+        'reservoir-pedigree:positions:101:horizontal',
+        JSON.stringify({ outflow1: { x: 480, y: 260 } })
+      );
+
+      const { container, rerender } = await renderDrawn(<ReservoirGraph data={mockData} layoutKey="101" />);
+      expect(translationOf(nodeElement(container, 'Outflow 1'))).toEqual([480, 260]);
+
+      rerender(<ReservoirGraph data={{ ...mockData }} layoutKey="101" positionsRevision={1} />);
+      await settle();
+      expect(translationOf(nodeElement(container, 'Outflow 1'))).toEqual([480, 260]);
+
+      fireEvent.click(screen.getByTitle('Reset Layout'));
+      await settle();
+      expect(translationOf(nodeElement(container, 'Outflow 1'))).not.toEqual([480, 260]);
+      expect(window.localStorage.getItem('reservoir-pedigree:positions:101:horizontal')).toBeNull();
+    });
+  });
+
+  describe('Focus', () => {
+    it('should handle focusing, moving and clearing the focus node', () => {
+      const { rerender, container } = render(<ReservoirGraph data={mockData} focusNodeId="project1" />);
+      rerender(<ReservoirGraph data={mockData} focusNodeId="inflow1" />);
+      rerender(<ReservoirGraph data={mockData} focusNodeId="missing" />);
+      rerender(<ReservoirGraph data={mockData} focusNodeId={null} />);
+      expect(container.querySelector('svg')).toBeInTheDocument();
+    });
+
+    it('should zoom to centre the focus node, following it when it changes', async () => {
+      const { container, rerender } = await renderDrawn(<ReservoirGraph data={mockData} focusNodeId="project1" />);
+      rerender(<ReservoirGraph data={mockData} focusNodeId="inflow1" />);
+      await settle();
+
+      const [x, y, width, height] = container.querySelector('svg')!.getAttribute('viewBox')!.split(' ').map(Number);
+      const zoom = container.querySelector('g.main-group')!.getAttribute('transform')!;
+      const [tx, ty] = translationOf(container.querySelector('g.main-group'));
+      const [nodeX, nodeY] = translationOf(nodeElement(container, 'Inflow 1'));
+
+      expect(zoom).toContain('scale(1.6)');
+      expect(tx + 1.6 * nodeX).toBeCloseTo(x + width / 2);
+      expect(ty + 1.6 * nodeY).toBeCloseTo(y + height / 2);
+      expect(screen.getByText('160%')).toBeInTheDocument();
+      expect(nodeElement(container, 'Inflow 1')!.querySelector('.focus-ring')).not.toBeNull();
+    });
+
+    it('should ring nodes in their registered shape', async () => {
+      const typedData: IGraphData = {
+        nodes: [...mockData.nodes, { id: 'gauge1', label: 'Gauge 1', type: 'gauge' }],
+        links: [...mockData.links, { source: 'gauge1', target: 'main' }],
+      };
+      const { container, rerender } = await renderDrawn(<ReservoirGraph data={typedData} focusNodeId="gauge1" />);
+
+      expect(container.querySelector('.focus-ring')?.tagName).toBe('path');
+
+      rerender(<ReservoirGraph data={typedData} focusNodeId="inflow1" />);
+      expect(container.querySelector('.focus-ring')?.tagName).toBe('circle');
+    });
+  });
+
+  describe('Keyboard Navigation', () => {
+    it('should describe nodes by their connections', () => {
+      const lake: IGraphData = {
+        nodes: [
+          { id: 'lake', label: 'Emerald Lake', type: 'main_reservoir' },
+          { id: 'creek', label: 'Stone Creek', type: 'inflow' },
+          { id: 'plant', label: 'Hydro Plant', type: 'project' },
+          { id: 'spring', label: 'Dry Spring', type: 'inflow' },
+        ],
+        links: [
+          { source: 'creek', target: 'lake' },
+          { source: 'lake', target: 'plant' },
+        ],
+      };
+
+      expect(describeNode(lake.nodes[1], lake)).toBe('Inflow Stone Creek into Emerald Lake');
+      expect(describeNode(lake.nodes[2], lake)).toBe('Project Hydro Plant from Emerald Lake');
+      expect(describeNode(lake.nodes[3], lake)).toBe('Inflow Dry Spring');
+      expect(describeNode({ ...lake.nodes[1], type: 'gauge' }, lake)).toBe('Gauge Stone Creek into Emerald Lake');
+      expect(describeNode(lake.nodes[0], lake)).toBe(
+        'Reservoir Emerald Lake, 1 incoming connection and 1 outgoing connection'
+      );
+    });
+
+    it('should label the graph and explain the keyboard controls', () => {
+      render(<ReservoirGraph data={mockData} />);
+
+      expect(screen.getByRole('group', { name: 'Reservoir network' })).toHaveAccessibleDescription(
+        /Arrow keys move between connected nodes/
+      );
+    });
+
+    it('should move between connected nodes and open one with Enter', () => {
+      const onNodeClick = vi.fn();
+      render(<ReservoirGraph data={mockData} onNodeClick={onNodeClick} />);
+      const graph = screen.getByRole('group', { name: 'Reservoir network' });
+      const openedId = () => onNodeClick.mock.lastCall?.[0].id;
+
+      // Starts from the main reservoir
+      fireEvent.keyDown(graph, { key: 'Enter' });
+      expect(openedId()).toBe('main');
+
+      fireEvent.keyDown(graph, { key: 'ArrowLeft' });
+      fireEvent.keyDown(graph, { key: 'Enter' });
+      expect(openedId()).toBe('inflow1');
+
+      // Nothing further left: stays put
+      fireEvent.keyDown(graph, { key: 'ArrowLeft' });
+      fireEvent.keyDown(graph, { key: 'Enter' });
+      expect(openedId()).toBe('inflow1');
+
+      fireEvent.keyDown(graph, { key: 'ArrowRight' });
+      fireEvent.keyDown(graph, { key: 'ArrowRight' });
+      fireEvent.keyDown(graph, { key: ' ' });
+      expect(openedId()).toBe('outflow1');
+    });
+
+    it('should walk a column of connections to the same reservoir', () => {
+      const onNodeClick = vi.fn();
+      render(<ReservoirGraph data={mockData} onNodeClick={onNodeClick} />);
+      const graph = screen.getByRole('group', { name: 'Reservoir network' });
+
+      fireEvent.keyDown(graph, { key: 'ArrowRight' });
+      fireEvent.keyDown(graph, { key: 'ArrowDown' });
+      fireEvent.keyDown(graph, { key: 'Enter' });
+
+      expect(onNodeClick).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'project1' }));
+    });
+
+    it('should zoom and pan with shortcuts and leave other keys alone', () => {
+      render(<ReservoirGraph data={mockData} />);
+      const graph = screen.getByRole('group', { name: 'Reservoir network' });
+
+      // fireEvent returns false when the graph handled the key
+      ['+', '=', '-', '0'].forEach((key) => expect(fireEvent.keyDown(graph, { key })).toBe(false));
+      expect(fireEvent.keyDown(graph, { key: 'ArrowUp', shiftKey: true })).toBe(false);
+      expect(fireEvent.keyDown(graph, { key: 'z', ctrlKey: true })).toBe(true);
+      expect(fireEvent.keyDown(graph, { key: '-', ctrlKey: true })).toBe(true);
+      expect(fireEvent.keyDown(graph, { key: 'a' })).toBe(true);
+    });
+  });
+
+  describe('Link Kinds', () => {
+    const kindData: IGraphData = {
+      nodes: mockData.nodes,
+      links: [
+        { source: 'inflow1', target: 'main', kind: 'natural_channel' },
+        { source: 'main', target: 'outflow1', kind: 'canal', label: 'Main Canal' },
+        { source: 'main', target: 'project1' },
+      ],
+    };
+
+    it('should draw each link in its kind\'s pattern', async () => {
+      const { container } = await renderDrawn(<ReservoirGraph data={kindData} />);
+      const patterns = [...container.querySelectorAll('path.link')].map((path) =>
+        path.getAttribute('stroke-dasharray')
+      );
+
+      expect(patterns).toEqual([null, '12,4', '5,3']);
+    });
+
+    it('should label links at their middle', async () => {
+      const { container } = await renderDrawn(<ReservoirGraph data={kindData} />);
+      const labels = container.querySelectorAll('text.link-label');
+      const [mainX, mainY] = translationOf(nodeElement(container, 'Main Reservoir, '));
+      const [outflowX, outflowY] = translationOf(nodeElement(container, 'Outflow 1'));
+      const middle = routeLink(
+        { type: 'main_reservoir', x: mainX, y: mainY },
+        { type: 'outflow', x: outflowX, y: outflowY },
+        'horizontal'
+      ).label;
+
+      expect(labels).toHaveLength(1);
+      expect(labels[0]).toHaveTextContent('Main Canal');
+      expect(Number(labels[0].getAttribute('x'))).toBeCloseTo(middle.x);
+      expect(Number(labels[0].getAttribute('y'))).toBeCloseTo(middle.y);
+    });
+
+    it('should list only the kinds shown in the legend', async () => {
+      const { container, rerender } = await renderDrawn(<ReservoirGraph data={kindData} />);
+      const legendText = () => [...container.querySelectorAll('g.legend text')].map((text) => text.textContent);
+
+      expect(legendText()).toEqual([
+        'Legend',
+        'Reservoirs',
+        'Inflows',
+        'Outflows',
+        'Projects',
+        'Links',
+        'Natural channels',
+        'Canals',
+      ]);
+
+      rerender(<ReservoirGraph data={mockData} />);
+      await settle();
+      expect(legendText()).not.toContain('Links');
+    });
+
+    it('should draw a kind with colors of its own in the theme\'s color', async () => {
+      registerLinkKind('tunnel', {
+        label: 'Tunnel',
+        legendLabel: 'Tunnels',
+        dasharray: '2,6',
+        colors: { light: '#3D405B', dark: '#E0E1DD', colorblind: '#332288' },
+      });
+      window.localStorage.setItem('reservoir-pedigree:theme', 'dark');
+      const tunnelData: IGraphData = {
+        nodes: mockData.nodes,
+        links: [
+          { source: 'main', target: 'outflow1', kind: 'tunnel' },
+          { source: 'main', target: 'project1', kind: 'canal' },
+        ],
+      };
+      const { container } = await renderDrawn(
+        <ThemeProvider>
+          <ReservoirGraph data={tunnelData} />
+        </ThemeProvider>
+      );
+      const [tunnel, canal] = container.querySelectorAll('path.link');
+
+      expect(tunnel).toHaveAttribute('stroke', '#E0E1DD');
+      expect(tunnel).toHaveAttribute('marker-end', 'url(#arrowhead-kind-tunnel)');
+      expect(container.querySelector('#arrowhead-kind-tunnel path')).toHaveAttribute('fill', '#E0E1DD');
+      // Kinds without colors keep their connection's, and a plain legend sample
+      expect(canal).toHaveAttribute('stroke', nodeColors(THEMES.dark, 'project').stroke);
+      expect([...container.querySelectorAll('g.legend line')].map((line) => line.getAttribute('stroke'))).toEqual([
+        THEMES.dark.graph.label,
+        '#E0E1DD',
+      ]);
+      window.localStorage.clear();
+    });
+  });
+
+  describe('Export', () => {
+    it('should open the export menu from the controls', () => {
+      render(<ReservoirGraph data={mockData} />);
+
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+      fireEvent.click(screen.getByTitle('Export'));
+
+      expect(screen.getByRole('menuitem', { name: 'Download SVG' })).toBeInTheDocument();
+      expect(screen.getByRole('menuitem', { name: 'Download PNG' })).toBeInTheDocument();
+      expect(screen.getByLabelText('PNG resolution')).toHaveValue('2');
+    });
+
+    it('should download an SVG named after the reservoir', () => {
+      const createObjectURL = vi.fn(() => 'blob:graph');
+      Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (
+        this: HTMLAnchorElement
+      ) {
+        expect(this.download).toBe('emerald-lake.svg');
+      });
+
+      render(<ReservoirGraph data={mockData} exportName="Emerald Lake" />);
+      fireEvent.click(screen.getByTitle('Export'));
+      fireEvent.click(screen.getByRole('menuitem', { name: 'Download SVG' }));
+
+      expect(click).toHaveBeenCalledTimes(1);
+      expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+      click.mockRestore();
+    });
+  });
+
+  describe('Timeline', () => {
+    const timelineFor = (
+      currentDate: string | null,
+      onDateChange: (date: string | null) => void = vi.fn()
+    ) => ({
+      dates: ['2024-01-01', '2024-04-01'],
+      currentDate,
+      onDateChange,
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should not render timeline controls without dates', () => {
+      render(<ReservoirGraph data={mockData} timeline={{ ...timelineFor(null), dates: [] }} />);
+
+      expect(screen.queryByLabelText('Timeline')).not.toBeInTheDocument();
+    });
+
+    it('should render a slider positioned at the current date', () => {
+      render(<ReservoirGraph data={mockData} timeline={timelineFor('2024-04-01')} />);
+
+      expect(screen.getByLabelText('Timeline')).toHaveValue('1');
+      expect(screen.getByText('2024-04-01')).toBeInTheDocument();
+    });
+
+    it('should show the current configuration at the end of the slider', () => {
+      render(<ReservoirGraph data={mockData} timeline={timelineFor(null)} />);
+
+      expect(screen.getByLabelText('Timeline')).toHaveValue('2');
+      expect(screen.getByText('Current')).toBeInTheDocument();
+    });
+
+    it('should change date when the slider moves', () => {
+      const onDateChange = vi.fn();
+      render(<ReservoirGraph data={mockData} timeline={timelineFor(null, onDateChange)} />);
+
+      fireEvent.change(screen.getByLabelText('Timeline'), { target: { value: '0' } });
+
+      expect(onDateChange).toHaveBeenCalledWith('2024-01-01');
+    });
+
+    it('should restart from the first date and advance while playing', () => {
+      vi.useFakeTimers();
+      const onDateChange = vi.fn();
+      const PlayableGraph = () => {
+        const [date, setDate] = useState<string | null>(null);
+        const handleDateChange = (next: string | null) => {
+          onDateChange(next);
+          setDate(next);
+        };
+        return <ReservoirGraph data={mockData} timeline={timelineFor(date, handleDateChange)} />;
+      };
+      render(<PlayableGraph />);
+
+      fireEvent.click(screen.getByLabelText('Play'));
+      expect(onDateChange).toHaveBeenCalledWith('2024-01-01');
+
+      act(() => {
+        vi.advanceTimersByTime(1500);
+      });
+      expect(onDateChange).toHaveBeenLastCalledWith('2024-04-01');
+      expect(screen.getByLabelText('Pause')).toBeInTheDocument();
+
+      act(() => {
+        vi.advanceTimersByTime(1500);
+      });
+      expect(onDateChange).toHaveBeenLastCalledWith(null);
+      expect(screen.getByLabelText('Play')).toBeInTheDocument();
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle nodes without main reservoir', () => {
       const noMainData: IGraphData = {
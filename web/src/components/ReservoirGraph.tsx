@@ -1,27 +1,66 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useId, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import type { INode, ILink, IGraphData } from '@data/reservoirData';
+import { formatFlow, toCubicMetresPerSecond } from '@data/flowUnits';
+import { getNodeType, listNodeTypes } from '@data/nodeTypes';
+import type { NodeColors, NodeShape } from '@data/nodeTypes';
+import { DEFAULT_LINK_DASHARRAY, getLinkKind, listLinkKinds } from '@data/linkKinds';
+import { PNG_SCALES, downloadBlob, exportFileName, renderPng, serializeSvg } from './graphExport';
+import {
+  LABEL_OFFSETS,
+  LAYOUT,
+  computeLayout,
+  findLabelCollisions,
+  labelBox,
+  labelLineOffsets,
+  nodeBox,
+  routeLink,
+} from './graphLayout';
+import type { LabelSide, LayoutStrategy } from './graphLayout';
+import { clearSavedPositions, loadSavedPositions, saveNodePosition } from './savedPositions';
+import type { SavedPosition } from './savedPositions';
+import { nodeColors, useTheme } from './theme';
+import type { Theme } from './theme';
+
+export type LinkWidthMode = 'uniform' | 'flow';
+
+/** Pan and zoom of the graph, as in d3.ZoomTransform */
+export interface ZoomState {
+  x: number;
+  y: number;
+  k: number;
+}
+
+/** A finished drag that saved a node's position */
+export interface NodeMove {
+  node: INode; // From `data`
+  positionsKey: string; // Where the position was saved
+  from: SavedPosition | null; // The saved position before the drag; null if it was at its computed position
+  to: SavedPosition;
+}
+
+export interface GraphTimeline {
+  dates: string[];
+  currentDate: string | null; // null = the current (undated) configuration
+  onDateChange: (date: string | null) => void;
+}
 
 interface ReservoirGraphProps {
   data: IGraphData;
+  linkWidthMode?: LinkWidthMode; // 'flow' scales link widths by flow rate and labels them
+  layoutStrategy?: LayoutStrategy;
+  layoutKey?: string; // Dragged positions are saved under this key (e.g. the reservoir id) and restored
+  timeline?: GraphTimeline; // Shows a playback slider when there are dated snapshots
+  exportName?: string; // Base name for exported files, e.g. the reservoir name
+  onNodeClick?: (node: INode) => void; // Called with the node from `data`; drags don't count as clicks
+  focusNodeId?: string | null; // Highlighted, and zoomed to whenever it changes
+  highlightNodeIds?: string[]; // Marked with a ring, e.g. connections shared with another reservoir
+  zoomTransform?: ZoomState | null; // Applied when it changes, e.g. to keep two graphs in step; a new graph starts from it
+  onZoomChange?: (transform: ZoomState) => void; // Every pan or zoom except those applied from zoomTransform
+  onNodeMove?: (move: NodeMove) => void; // Only with a layoutKey, since positions are saved under it
+  positionsRevision?: number; // Bump to redraw after saved positions change elsewhere, e.g. on undo
 }
 
-// Layout constants
-const LAYOUT = {
-  NODE_SPACING: 40,
-  HORIZONTAL_SPACING: 220,
-  PADDING: 100,
-  MAIN_RECT_WIDTH: 180,
-  MAIN_RECT_HEIGHT: 80,
-  MAIN_RECT_PADDING: 10,
-  MAIN_RECT_RADIUS: 12,
-  NODE_RADIUS: 12,
-  LEGEND_WIDTH: 63,
-  LEGEND_ITEM_HEIGHT: 14,
-  LEGEND_PADDING: 16,
-  LEGEND_OFFSET: 40,
-} as const;
-
 // Zoom constants
 const ZOOM = {
   MIN_SCALE: 0.5,
@@ -29,23 +68,21 @@ const ZOOM = {
   INITIAL_SCALE: 0.8,
   ZOOM_IN_FACTOR: 1.3,
   ZOOM_OUT_FACTOR: 0.7,
+  FOCUS_SCALE: 1.6,
+  PAN_STEP: 60, // How far Shift+arrow pans, the same on screen at any zoom
 } as const;
 
-// Color scheme
-const COLOR_MAP = {
-  main_reservoir: { fill: '#5B7FDB', stroke: '#4A6BC5', label: 'Main Reservoir' },
-  inflow: { fill: '#E88BA8', stroke: '#D67A97', label: 'Inflows' },
-  outflow: { fill: '#4DB8D8', stroke: '#3CA7C7', label: 'Outflows' },
-  project: { fill: '#4DB89A', stroke: '#3CA789', label: 'Projects' },
+// Animation constants
+const ANIMATION = {
+  TRANSITION_MS: 600,
+  PLAYBACK_INTERVAL_MS: 1500,
 } as const;
 
-// Button styles
+// Button styles; colors come from the theme
 const BUTTON_STYLE: React.CSSProperties = {
   width: '36px',
   height: '36px',
-  border: '1px solid #ddd',
   borderRadius: '4px',
-  background: 'white',
   cursor: 'pointer',
   display: 'flex',
   alignItems: 'center',
@@ -53,33 +90,473 @@ const BUTTON_STYLE: React.CSSProperties = {
   transition: 'all 0.2s',
 };
 
-const ReservoirGraph = ({ data }: ReservoirGraphProps) => {
+const CIRCLE_LABEL_FONT_SIZE = 13;
+
+type MeasureText<Datum> = d3.Selection<SVGTextElement, Datum, null, undefined>;
+
+/**
+ * Wrap text into lines no wider than maxWidth, measured with a (hidden) text element.
+ * A single word wider than maxWidth gets a line of its own.
+ */
+function wrapText<Datum>(measure: MeasureText<Datum>, text: string, maxWidth: number, fontSize: number) {
+  const words = text.split(/\s+/);
+  const lines: string[] = [];
+  let currentLine = '';
+
+  measure.attr('font-size', `${fontSize}px`);
+
+  words.forEach((word) => {
+    const testLine = currentLine ? `${currentLine} ${word}` : word;
+    measure.text(testLine);
+    const width = (measure.node() as SVGTextElement).getComputedTextLength();
+
+    if (width > maxWidth && currentLine) {
+      lines.push(currentLine);
+      currentLine = word;
+    } else {
+      currentLine = testLine;
+    }
+  });
+
+  if (currentLine) {
+    lines.push(currentLine);
+  }
+
+  return lines;
+}
+
+/**
+ * Shorten text with an ellipsis until it fits within maxWidth
+ */
+function truncateText<Datum>(measure: MeasureText<Datum>, text: string, maxWidth: number) {
+  const widthOf = (candidate: string) => {
+    measure.text(candidate);
+    return (measure.node() as SVGTextElement).getComputedTextLength();
+  };
+  if (widthOf(text) <= maxWidth) return text;
+
+  let end = text.length;
+  while (end > 1 && widthOf(`${text.slice(0, end).trimEnd()}…`) > maxWidth) {
+    end--;
+  }
+  return `${text.slice(0, end).trimEnd()}…`;
+}
+
+/**
+ * Break a circle label into at most `maxLines` lines, truncating whatever doesn't fit
+ */
+function fitLabel<Datum>(measure: MeasureText<Datum>, text: string, maxLines: number) {
+  const lines = wrapText(measure, text, LAYOUT.LABEL_MAX_WIDTH, CIRCLE_LABEL_FONT_SIZE);
+  const kept = lines.slice(0, maxLines);
+  if (lines.length > maxLines) {
+    kept[maxLines - 1] = lines.slice(maxLines - 1).join(' ');
+  }
+  return kept.map((line) => truncateText(measure, line, LAYOUT.LABEL_MAX_WIDTH));
+}
+
+/**
+ * Outline of a connection node's symbol around the origin, sized to sit within about
+ * `r` of it like the circle does
+ */
+function symbolPath(shape: Exclude<NodeShape, 'rect' | 'circle'>, r: number): string {
+  const polygon = (points: [number, number][]) => `M ${points.map(([x, y]) => `${x},${y}`).join(' L ')} Z`;
+  switch (shape) {
+    case 'square':
+      return polygon([[-0.9 * r, -0.9 * r], [0.9 * r, -0.9 * r], [0.9 * r, 0.9 * r], [-0.9 * r, 0.9 * r]]);
+    case 'diamond':
+      return polygon([[0, -1.2 * r], [1.2 * r, 0], [0, 1.2 * r], [-1.2 * r, 0]]);
+    case 'triangle':
+      return polygon([[0, -1.15 * r], [1.1 * r, 0.8 * r], [-1.1 * r, 0.8 * r]]);
+    case 'hexagon':
+      return polygon(
+        d3.range(6).map((i) => [1.1 * r * Math.cos((i * Math.PI) / 3), 1.1 * r * Math.sin((i * Math.PI) / 3)])
+      );
+  }
+}
+
+/**
+ * Draw a node type's symbol centred in `g`: a circle, a polygon, or for reservoirs
+ * (in the legend) a small rounded rectangle
+ */
+function appendSymbol<Datum>(
+  g: d3.Selection<SVGGElement, Datum, null, undefined>,
+  shape: NodeShape,
+  r: number,
+  colors: NodeColors,
+  strokeWidth: number
+) {
+  const symbol = g
+    .append<SVGElement>(shape === 'circle' ? 'circle' : shape === 'rect' ? 'rect' : 'path')
+    .attr('fill', colors.fill)
+    .attr('stroke', colors.stroke)
+    .attr('stroke-width', strokeWidth);
+
+  if (shape === 'circle') {
+    symbol.attr('r', r);
+  } else if (shape === 'rect') {
+    symbol
+      .attr('x', -1.3 * r)
+      .attr('y', -0.9 * r)
+      .attr('width', 2.6 * r)
+      .attr('height', 1.8 * r)
+      .attr('rx', 0.4 * r);
+  } else {
+    symbol.attr('d', symbolPath(shape, r));
+  }
+}
+
+/**
+ * Draw a node's shape and label into its group, which is positioned at the node centre
+ */
+function drawNodeContent(
+  g: d3.Selection<SVGGElement, INode, null, undefined>,
+  node: INode,
+  labelSide: LabelSide,
+  labelLines: string[],
+  theme: Theme
+) {
+  // Redraw from scratch: the label or storage may have changed since the last frame
+  g.selectAll('*').remove();
+
+  if (node.type === 'main_reservoir') {
+    const color = nodeColors(theme, node.type);
+
+    // Draw rounded rectangle for main reservoir
+    g.append('rect')
+      .attr('x', -LAYOUT.MAIN_RECT_WIDTH / 2)
+      .attr('y', -LAYOUT.MAIN_RECT_HEIGHT / 2)
+      .attr('width', LAYOUT.MAIN_RECT_WIDTH)
+      .attr('height', LAYOUT.MAIN_RECT_HEIGHT)
+      .attr('rx', LAYOUT.MAIN_RECT_RADIUS)
+      .attr('fill', color.fill)
+      .attr('stroke', color.stroke)
+      .attr('stroke-width', 2);
+
+    // Add text with wrapping and dynamic font sizing
+    const maxWidth = LAYOUT.MAIN_RECT_WIDTH - LAYOUT.MAIN_RECT_PADDING * 2;
+    const maxHeight = LAYOUT.MAIN_RECT_HEIGHT - LAYOUT.MAIN_RECT_PADDING * 2;
+        
+    // Create a temporary text element to measure
+    const tempText = g.append('text')
+      .attr('font-family', 'sans-serif')
+      .attr('font-weight', '600')
+      .style('visibility', 'hidden');
+        
+    // Try different font sizes to fit the text
+    let fontSize = 16;
+    let lines: string[] = [];
+    let lineHeight = 0;
+        
+    while (fontSize >= 10) {
+      lines = wrapText(tempText, node.label, maxWidth, fontSize);
+      lineHeight = fontSize * 1.2;
+      const totalHeight = lines.length * lineHeight;
+          
+      if (totalHeight <= maxHeight) {
+        break;
+      }
+      fontSize -= 1;
+    }
+        
+    // Remove temporary text
+    tempText.remove();
+        
+    // Calculate starting Y position to center the text block
+    const totalTextHeight = lines.length * lineHeight;
+    const startY = -totalTextHeight / 2 + lineHeight * 0.8;
+        
+    // Draw each line
+    lines.forEach((line, i) => {
+      g.append('text')
+        .attr('x', 0)
+        .attr('y', startY + i * lineHeight)
+        .attr('text-anchor', 'middle')
+        .attr('font-family', 'sans-serif')
+        .attr('font-size', `${fontSize}px`)
+        .attr('font-weight', '600')
+        .attr('fill', theme.graph.reservoirLabel)
+        .text(line);
+    });
+  } else {
+    // Draw the type's symbol for other nodes
+    appendSymbol(g, getNodeType(node.type).shape, LAYOUT.NODE_RADIUS, nodeColors(theme, node.type), 2);
+
+    // Full name on hover, since long labels are wrapped or truncated
+    g.append('title').text(node.label);
+
+    // Position the label on the side the layout chose, clear of the links
+    const { textX, textAnchor } = LABEL_OFFSETS[labelSide];
+    const baselines = labelLineOffsets(labelSide, labelLines.length);
+
+    labelLines.forEach((line, i) => {
+      // Add label with white outline
+      g.append('text')
+        .attr('x', textX)
+        .attr('y', baselines[i])
+        .attr('text-anchor', textAnchor)
+        .attr('font-family', 'sans-serif')
+        .attr('font-size', `${CIRCLE_LABEL_FONT_SIZE}px`)
+        .attr('stroke', theme.graph.labelHalo)
+        .attr('stroke-width', 3)
+        .attr('stroke-linejoin', 'round')
+        .style('pointer-events', 'none')
+        .text(line);
+
+      g.append('text')
+        .attr('x', textX)
+        .attr('y', baselines[i])
+        .attr('text-anchor', textAnchor)
+        .attr('font-family', 'sans-serif')
+        .attr('font-size', `${CIRCLE_LABEL_FONT_SIZE}px`)
+        .attr('fill', theme.graph.label)
+        .style('pointer-events', 'none')
+        .text(line);
+    });
+  }
+
+  // Storage level, when known, goes underneath the reservoir
+  if (node.type === 'main_reservoir' && node.storage) {
+    g.append('text')
+      .attr('x', 0)
+      .attr('y', LAYOUT.MAIN_RECT_HEIGHT / 2 + 16)
+      .attr('text-anchor', 'middle')
+      .attr('font-family', 'sans-serif')
+      .attr('font-size', '11px')
+      .attr('fill', theme.graph.mutedLabel)
+      .style('pointer-events', 'none')
+      .text(`Storage: ${d3.format(',')(node.storage.value)} ${node.storage.unit}`);
+  }
+}
+
+/**
+ * Draw a ring around a node's shape to mark it, following its registered symbol
+ */
+function drawNodeRing(
+  g: d3.Selection<SVGGElement, INode, null, undefined>,
+  node: INode,
+  className: string,
+  color: string
+) {
+  const { shape } = getNodeType(node.type);
+  const r = LAYOUT.NODE_RADIUS + 6;
+  const ring = g.append<SVGElement>(
+    node.type === 'main_reservoir' || shape === 'rect' ? 'rect' : shape === 'circle' ? 'circle' : 'path'
+  );
+  if (node.type === 'main_reservoir') {
+    ring
+      .attr('x', -LAYOUT.MAIN_RECT_WIDTH / 2 - 6)
+      .attr('y', -LAYOUT.MAIN_RECT_HEIGHT / 2 - 6)
+      .attr('width', LAYOUT.MAIN_RECT_WIDTH + 12)
+      .attr('height', LAYOUT.MAIN_RECT_HEIGHT + 12)
+      .attr('rx', LAYOUT.MAIN_RECT_RADIUS + 6);
+  } else if (shape === 'circle') {
+    ring.attr('r', r);
+  } else if (shape === 'rect') {
+    // Same proportions as appendSymbol's rectangle
+    ring
+      .attr('x', -1.3 * r)
+      .attr('y', -0.9 * r)
+      .attr('width', 2.6 * r)
+      .attr('height', 1.8 * r)
+      .attr('rx', 0.4 * r);
+  } else {
+    ring.attr('d', symbolPath(shape, r));
+  }
+  ring
+    .attr('class', className)
+    .attr('fill', 'none')
+    .attr('stroke', color)
+    .attr('stroke-width', 3)
+    .style('pointer-events', 'none');
+}
+
+const linkKey = (link: ILink) => `${link.source}->${link.target}`;
+
+const countOf = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * What a screen reader announces for a node, e.g. "Inflow Stone Creek into Emerald Lake"
+ */
+export function describeNode(node: INode, graph: IGraphData): string {
+  const labelOf = (id: string) => graph.nodes.find((n) => n.id === id)?.label ?? id;
+  const sources = graph.links.filter((l) => l.target === node.id).map((l) => labelOf(l.source));
+  const targets = graph.links.filter((l) => l.source === node.id).map((l) => labelOf(l.target));
+
+  if (node.type === 'main_reservoir') {
+    return `Reservoir ${node.label}, ${countOf(sources.length, 'incoming connection')} and ${countOf(
+      targets.length,
+      'outgoing connection'
+    )}`;
+  }
+
+  // Connections feed their reservoir or are fed by it
+  const kind = getNodeType(node.type).label;
+  if (targets.length) return `${kind} ${node.label} into ${targets.join(' and ')}`;
+  if (sources.length) return `${kind} ${node.label} from ${sources.join(' and ')}`;
+  return `${kind} ${node.label}`;
+}
+
+// Unit vectors for the arrow keys, in SVG coordinates (y grows downwards)
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowRight: [1, 0],
+  ArrowLeft: [-1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+/**
+ * The node an arrow key moves to: the closest in that direction among the nodes linked to
+ * `from` and their other neighbours, so a column of connections can be walked as well
+ */
+function findNodeInDirection(nodes: INode[], links: ILink[], from: INode, [dirX, dirY]: [number, number]) {
+  const neighbours = (id: string) =>
+    links.flatMap((l) => (l.source === id ? [l.target] : l.target === id ? [l.source] : []));
+  const candidates = new Set([...neighbours(from.id), ...neighbours(from.id).flatMap(neighbours)]);
+  candidates.delete(from.id);
+
+  let best: INode | undefined;
+  let bestScore = Infinity;
+  nodes.forEach((node) => {
+    if (!candidates.has(node.id)) return;
+    const dx = node.fx! - from.fx!;
+    const dy = node.fy! - from.fy!;
+    const along = dx * dirX + dy * dirY;
+    if (along <= 0) return;
+    // Prefer nodes straight ahead over closer ones off to the side
+    const score = along + 2 * Math.abs(dx * dirY - dy * dirX);
+    if (score < bestScore) {
+      best = node;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+const ReservoirGraph = ({
+  data,
+  linkWidthMode = 'uniform',
+  layoutStrategy = 'horizontal',
+  layoutKey,
+  timeline,
+  exportName = 'reservoir-graph',
+  onNodeClick,
+  focusNodeId = null,
+  highlightNodeIds,
+  zoomTransform,
+  onZoomChange,
+  onNodeMove,
+  positionsRevision = 0,
+}: ReservoirGraphProps) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  // Read at click time so a new handler doesn't force the graph to redraw
+  const onNodeClickRef = useRef(onNodeClick);
+  onNodeClickRef.current = onNodeClick;
+  const onZoomChangeRef = useRef(onZoomChange);
+  onZoomChangeRef.current = onZoomChange;
+  const onNodeMoveRef = useRef(onNodeMove);
+  onNodeMoveRef.current = onNodeMove;
+  // The transform on screen, and whether it is being set from the zoomTransform prop
+  const zoomStateRef = useRef<ZoomState | null>(null);
+  const applyingZoomRef = useRef(false);
+  // Read when a new graph is drawn, without redrawing when they change
+  const zoomTransformRef = useRef(zoomTransform);
+  zoomTransformRef.current = zoomTransform;
+  const focusNodeIdRef = useRef(focusNodeId);
+  focusNodeIdRef.current = focusNodeId;
+  // Compared by value so a new array with the same ids doesn't redraw the rings
+  const highlightKey = (highlightNodeIds ?? []).join('\n');
   const [zoomLevel, setZoomLevel] = useState(ZOOM.INITIAL_SCALE);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [pngScale, setPngScale] = useState<number>(2);
+  const [exportError, setExportError] = useState<string | null>(null);
+  // Bumped by "reset layout" to redraw with the computed positions
+  const [layoutVersion, setLayoutVersion] = useState(0);
+  // Positions are saved per strategy: a spot dragged to in one layout means nothing in another
+  const positionsKey = layoutKey === undefined ? undefined : `${layoutKey}:${layoutStrategy}`;
   const zoomBehaviorRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  // Identifies the set of reservoirs on screen; zoom is only reset when it changes
+  const graphKeyRef = useRef<string | null>(null);
+  // Nodes on screen (with their current, possibly dragged, positions) and the viewBox they sit in
+  const nodesRef = useRef<INode[]>([]);
+  const viewBoxRef = useRef({ x: 0, y: 0, width: 0, height: 0 });
+  // The focus node last zoomed to, so redraws don't pull the view back to it
+  const zoomedFocusRef = useRef<string | null>(null);
+  // The node last reached with the keyboard; it is the graph's one tab stop
+  const [activeNodeId, setActiveNodeId] = useState<string | null>(null);
+  const instructionsId = useId();
+  const { theme } = useTheme();
+  const buttonStyle: React.CSSProperties = {
+    ...BUTTON_STYLE,
+    border: `1px solid ${theme.chrome.divider}`,
+    background: theme.chrome.surface,
+    color: theme.chrome.text,
+  };
 
+  // Build the persistent SVG structure once; data changes are joined into these groups
   useEffect(() => {
     if (!svgRef.current) return;
 
-    const width = svgRef.current.clientWidth;
-    const height = svgRef.current.clientHeight;
-
-    const svg = d3
-      .select(svgRef.current)
-      .attr('width', width)
-      .attr('height', height);
+    const svg = d3.select(svgRef.current);
 
     // Clear previous renders
     svg.selectAll('*').remove();
 
-    // Create defs for arrowheads FIRST (before any other elements)
-    const defs = svg.append('defs');
+    // Defs come FIRST (before any other elements); the arrowheads in them follow the theme
+    svg.append('defs');
+
+    // Create main group for zoom/pan, with one layer per element kind
+    const mainGroup = svg.append('g').attr('class', 'main-group');
+    mainGroup.append('g').attr('class', 'links');
+    mainGroup.append('g').attr('class', 'link-labels');
+    mainGroup.append('g').attr('class', 'nodes');
+    mainGroup.append('g').attr('class', 'legend');
+
+    // Setup zoom behavior
+    const zoomBehavior = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([ZOOM.MIN_SCALE, ZOOM.MAX_SCALE])
+      .on('zoom', (event) => {
+        mainGroup.attr('transform', event.transform);
+        setZoomLevel(event.transform.k);
+        const { x, y, k } = event.transform;
+        zoomStateRef.current = { x, y, k };
+        if (!applyingZoomRef.current) onZoomChangeRef.current?.({ x, y, k });
+      });
+
+    svg.call(zoomBehavior);
+    zoomBehaviorRef.current = zoomBehavior;
+
+    // Cleanup function
+    return () => {
+      svg.on('.zoom', null);
+      zoomBehaviorRef.current = null;
+      graphKeyRef.current = null;
+      zoomedFocusRef.current = null;
+      zoomStateRef.current = null;
+    };
+  }, []);
+
+  // Arrowhead markers for each node type and colored link kind, in the theme's colors
+  useEffect(() => {
+    if (!svgRef.current) return;
 
-    // Create arrowhead markers for each type
-    Object.entries(COLOR_MAP).forEach(([type, colors]) => {
+    const defs = d3.select(svgRef.current).select('defs');
+    defs.selectAll('marker').remove();
+
+    // One marker per link color: each registered type, then each kind with colors of its own
+    const markerColors: [string, string][] = [
+      ...listNodeTypes().map((type): [string, string] => [type, nodeColors(theme, type).stroke]),
+      ...listLinkKinds().flatMap((kind): [string, string][] => {
+        const colors = getLinkKind(kind).colors;
+        return colors ? [[`kind-${kind}`, colors[theme.palette]]] : [];
+      }),
+    ];
+
+    // Create arrowhead markers
+    markerColors.forEach(([key, color]) => {
       defs
         .append('marker')
-        .attr('id', `arrowhead-${type}`)
+        .attr('id', `arrowhead-${key}`)
         .attr('viewBox', '0 0 10 10')
         .attr('refX', 10)
         .attr('refY', 5)
@@ -88,193 +565,253 @@ const ReservoirGraph = ({ data }: ReservoirGraphProps) => {
         .attr('orient', 'auto')
         .append('path')
         .attr('d', 'M 0 0 L 10 5 L 0 10 z')
-        .attr('fill', colors.stroke);
+        .attr('fill', color);
     });
 
+    // Flow-mode arrowheads scale with the (variable) stroke width
+    markerColors.forEach(([key, color]) => {
+      defs
+        .append('marker')
+        .attr('id', `arrowhead-flow-${key}`)
+        .attr('viewBox', '0 0 10 10')
+        .attr('refX', 10)
+        .attr('refY', 5)
+        .attr('markerWidth', 2.5)
+        .attr('markerHeight', 2.5)
+        .attr('orient', 'auto')
+        .append('path')
+        .attr('d', 'M 0 0 L 10 5 L 0 10 z')
+        .attr('fill', color);
+    });
+  }, [theme]);
+
+  // Join the current data into the graph, transitioning nodes and links between states
+  useEffect(() => {
+    if (!svgRef.current || !zoomBehaviorRef.current) return;
+
+    const width = svgRef.current.clientWidth;
+    const height = svgRef.current.clientHeight;
+
+    const svg = d3
+      .select(svgRef.current)
+      .attr('width', width)
+      .attr('height', height);
+
     const nodes: INode[] = data.nodes.map((d) => Object.create(d));
     const links: ILink[] = data.links.map((d) => Object.create(d));
+    const nodeById = new Map(nodes.map((n) => [n.id, n]));
     
-    // Position nodes in fixed layout
-    const inflowNodes = nodes.filter((n) => n.type === 'inflow');
-    const outflowNodes = nodes.filter((n) => n.type === 'outflow');
-    const projectNodes = nodes.filter((n) => n.type === 'project');
-    const mainNode = nodes.find((n) => n.type === 'main_reservoir');
-
-    // Calculate total height needed
-    const totalRightHeight = (outflowNodes.length + projectNodes.length) * LAYOUT.NODE_SPACING;
-    
-    // Calculate positions relative to content center
-    const contentCenterX = 0;
-    const contentCenterY = 0;
-    
-    const leftX = contentCenterX;
-    const rightX = contentCenterX;
-
-    // Position main reservoir (center)
-    if (mainNode) {
-      mainNode.fx = contentCenterX;
-      mainNode.fy = contentCenterY;
-    }
+    // Wrap circle labels first so the layout can make room for multi-line ones
+    const measure = svg
+      .append('text')
+      .attr('font-family', 'sans-serif')
+      .style('visibility', 'hidden');
+    const labelLines = new Map(
+      nodes
+        .filter((n) => n.type !== 'main_reservoir')
+        .map((n) => [n.id, fitLabel(measure, n.label, LAYOUT.LABEL_MAX_LINES)])
+    );
+    const measureWidth = (lines: string[]) =>
+      Math.max(
+        ...lines.map((line) => {
+          measure.text(line);
+          return (measure.node() as SVGTextElement).getComputedTextLength();
+        })
+      );
 
-    // Position inflows (left side, vertically centered)
-    const inflowStartY = contentCenterY - ((inflowNodes.length - 1) * LAYOUT.NODE_SPACING) / 2;
-    inflowNodes.forEach((node, i) => {
-      node.fx = leftX - LAYOUT.HORIZONTAL_SPACING;
-      node.fy = inflowStartY + i * LAYOUT.NODE_SPACING;
+    // Position nodes with the chosen layout strategy, then reapply any the user dragged
+    const layout = computeLayout(data, layoutStrategy, {
+      labelLines: new Map([...labelLines].map(([id, lines]) => [id, lines.length])),
+      labelWidths: new Map([...labelLines].map(([id, lines]) => [id, measureWidth(lines)])),
     });
+    const savedPositions = positionsKey ? loadSavedPositions(positionsKey) : {};
+    nodes.forEach((node) => {
+      const position = savedPositions[node.id] ?? layout.positions.get(node.id);
+      node.fx = position?.x ?? 0;
+      node.fy = position?.y ?? 0;
+    });
+    const labelSideOf = (node: INode) => layout.positions.get(node.id)?.labelSide ?? 'right';
 
-    // Position outflows and projects on the right side
-    const hasOutflows = outflowNodes.length > 0;
-    const hasProjects = projectNodes.length > 0;
-    
-    let outflowStartY = contentCenterY;
-    let projectStartY = contentCenterY;
-
-    if (hasOutflows && hasProjects) {
-      // Both exist: outflows in top-half, projects in bottom-half
-      const outflowConnectorY = contentCenterY - LAYOUT.MAIN_RECT_HEIGHT / 4;
-      const projectConnectorY = contentCenterY + LAYOUT.MAIN_RECT_HEIGHT / 4;
-      
-      const outflowsHeight = (outflowNodes.length - 1) * LAYOUT.NODE_SPACING;
-      outflowStartY = outflowConnectorY - outflowsHeight;
-      projectStartY = projectConnectorY;
-      
-      outflowNodes.forEach((node, i) => {
-        node.fx = rightX + LAYOUT.HORIZONTAL_SPACING;
-        node.fy = outflowStartY + i * LAYOUT.NODE_SPACING;
+    // Labels that still run into another label or node (dense clusters, dragged
+    // nodes) shrink to a single truncated line; the tooltip keeps the full name
+    const labelBoxes = nodes
+      .filter((n) => labelLines.has(n.id))
+      .map((n) => {
+        const lines = labelLines.get(n.id)!;
+        return labelBox(n.id, n.fx!, n.fy!, labelSideOf(n), measureWidth(lines), lines.length);
       });
-      
-      projectNodes.forEach((node, i) => {
-        node.fx = rightX + LAYOUT.HORIZONTAL_SPACING;
-        node.fy = projectStartY + i * LAYOUT.NODE_SPACING;
-      });
-    } else if (hasOutflows) {
-      outflowStartY = contentCenterY - ((outflowNodes.length - 1) * LAYOUT.NODE_SPACING) / 2;
-      outflowNodes.forEach((node, i) => {
-        node.fx = rightX + LAYOUT.HORIZONTAL_SPACING;
-        node.fy = outflowStartY + i * LAYOUT.NODE_SPACING;
-      });
-    } else if (hasProjects) {
-      projectStartY = contentCenterY - ((projectNodes.length - 1) * LAYOUT.NODE_SPACING) / 2;
-      projectNodes.forEach((node, i) => {
-        node.fx = rightX + LAYOUT.HORIZONTAL_SPACING;
-        node.fy = projectStartY + i * LAYOUT.NODE_SPACING;
-      });
-    }
+    const shapeBoxes = nodes.map((n) => nodeBox(n.id, n.fx!, n.fy!, n.type));
+    findLabelCollisions(labelBoxes, shapeBoxes).forEach((id) => {
+      const node = nodeById.get(id)!;
+      labelLines.set(id, fitLabel(measure, node.label, 1));
+    });
+    measure.remove();
+
+    // A different set of reservoirs is a new graph: jump straight to it and reset zoom.
+    // The same reservoirs at another point in time animate instead.
+    const graphKey = nodes
+      .filter((n) => n.type === 'main_reservoir')
+      .map((n) => n.id)
+      .join('|');
+    const isNewGraph = graphKey !== graphKeyRef.current;
+    graphKeyRef.current = graphKey;
+    const t = d3.transition().duration(isNewGraph ? 0 : ANIMATION.TRANSITION_MS);
 
     // Calculate bounds for viewBox
-    const minX = leftX - LAYOUT.HORIZONTAL_SPACING - LAYOUT.PADDING;
-    const maxX = rightX + LAYOUT.HORIZONTAL_SPACING + 200;
-    const minY = Math.min(inflowStartY, outflowStartY) - LAYOUT.PADDING;
-    const maxY = Math.max(
-      inflowStartY + (inflowNodes.length - 1) * LAYOUT.NODE_SPACING,
-      projectStartY + (projectNodes.length - 1) * LAYOUT.NODE_SPACING
-    ) + LAYOUT.PADDING;
-    
+    const { minX, minY, maxX, maxY } = layout.bounds;
+
     const viewBoxWidth = maxX - minX;
     const viewBoxHeight = maxY - minY;
+    viewBoxRef.current = { x: minX, y: minY, width: viewBoxWidth, height: viewBoxHeight };
+    nodesRef.current = nodes;
 
     // Set viewBox to center content
-    svg.attr('viewBox', `${minX} ${minY} ${viewBoxWidth} ${viewBoxHeight}`);
     svg.attr('preserveAspectRatio', 'xMidYMid meet');
+    if (isNewGraph) {
+      svg.attr('viewBox', `${minX} ${minY} ${viewBoxWidth} ${viewBoxHeight}`);
+      // Start from the given transform (e.g. restored from a link), else the initial zoom.
+      // A given transform already shows whatever it was saved with, so it isn't overridden
+      // by zooming to the focus node.
+      const initial = zoomTransformRef.current;
+      svg.call(
+        zoomBehaviorRef.current.transform,
+        initial
+          ? d3.zoomIdentity.translate(initial.x, initial.y).scale(initial.k)
+          : d3.zoomIdentity.scale(ZOOM.INITIAL_SCALE)
+      );
+      zoomedFocusRef.current = initial ? focusNodeIdRef.current : null;
+    } else {
+      svg.transition(t).attr('viewBox', `${minX} ${minY} ${viewBoxWidth} ${viewBoxHeight}`);
+    }
 
-    // Create main group for zoom/pan
-    const mainGroup = svg.append('g').attr('class', 'main-group');
-
-    // Setup zoom behavior
-    const zoomBehavior = d3.zoom<SVGSVGElement, unknown>()
-      .scaleExtent([ZOOM.MIN_SCALE, ZOOM.MAX_SCALE])
-      .on('zoom', (event) => {
-        mainGroup.attr('transform', event.transform);
-        setZoomLevel(event.transform.k);
-      });
+    const mainGroup = svg.select<SVGGElement>('g.main-group');
+    const linkGroup = mainGroup.select<SVGGElement>('g.links');
+    const linkLabelGroup = mainGroup.select<SVGGElement>('g.link-labels');
+    const nodeGroup = mainGroup.select<SVGGElement>('g.nodes');
 
-    svg.call(zoomBehavior);
-    
-    // Set initial zoom
-    svg.call(zoomBehavior.transform, d3.zoomIdentity.scale(ZOOM.INITIAL_SCALE));
-    
-    zoomBehaviorRef.current = zoomBehavior;
+    // Route a link between its nodes' current (possibly dragged) positions
+    const routeOf = (link: ILink) => {
+      const source = nodeById.get(link.source)!;
+      const target = nodeById.get(link.target)!;
+      return routeLink(
+        { type: source.type, x: source.fx!, y: source.fy! },
+        { type: target.type, x: target.fx!, y: target.fy! },
+        layoutStrategy
+      );
+    };
+    const calculatePathData = (link: ILink) => routeOf(link).path;
+    const calculateLabelPosition = (link: ILink) => routeOf(link).label;
 
-    // Function to calculate path data for a link
-    const calculatePathData = (link: ILink) => {
-      const source = nodes.find((n) => n.id === link.source);
-      const target = nodes.find((n) => n.id === link.target);
-      if (!source || !target) return '';
-
-      // Create right-angle path
-      let x1 = source.fx!;
-      let y1 = source.fy!;
-      let x2 = target.fx!;
-      let y2 = target.fy!;
-      
-      // For outflows from main node, start from top-right of rectangle
-      // For projects from main node, start from bottom-right of rectangle
-      if (source.type === 'main_reservoir') {
-        x1 = source.fx! + LAYOUT.MAIN_RECT_WIDTH / 2;
-        
-        if (target.type === 'outflow') {
-          y1 = source.fy! - LAYOUT.MAIN_RECT_HEIGHT / 4;
-        } else if (target.type === 'project') {
-          y1 = source.fy! + LAYOUT.MAIN_RECT_HEIGHT / 4;
-        }
-      }
-      
-      // For inflows to main node, end at left edge of rectangle
-      if (target.type === 'main_reservoir') {
-        x2 = target.fx! - LAYOUT.MAIN_RECT_WIDTH / 2;
-      } else {
-        // For other nodes (circles), stop before the node radius
-        x2 = x2 - LAYOUT.NODE_RADIUS;
-      }
-      
-      // Calculate midpoint for right angle
-      const midX = (x1 + x2) / 2;
-      
-      // Create path with right angles: horizontal from source, vertical turn, horizontal to target
-      return `M ${x1},${y1} L ${midX},${y1} L ${midX},${y2} L ${x2},${y2}`;
+    // Links take the color of the connection they lead to (or come from), unless their
+    // kind has colors of its own
+    const linkColorType = (link: ILink) => {
+      const source = nodeById.get(link.source)!;
+      const target = nodeById.get(link.target)!;
+      return target.type === 'main_reservoir' ? source.type : target.type;
     };
+    const kindColorsOf = (link: ILink) => (link.kind ? getLinkKind(link.kind).colors : undefined);
+    const linkStroke = (link: ILink) =>
+      kindColorsOf(link)?.[theme.palette] ?? nodeColors(theme, linkColorType(link)).stroke;
+    const linkMarkerKey = (link: ILink) => (kindColorsOf(link) ? `kind-${link.kind}` : linkColorType(link));
+
+    // Stroke width scale for flow mode, shared by all links with a convertible flow
+    const flowMode = linkWidthMode === 'flow';
+    const flowValueOf = (link: ILink) =>
+      flowMode && link.flow ? toCubicMetresPerSecond(link.flow) : undefined;
+    const flowValues = links
+      .map(flowValueOf)
+      .filter((value): value is number => value !== undefined);
+    const flowWidth = d3
+      .scaleLinear()
+      .domain([0, d3.max(flowValues) || 1])
+      .range([LAYOUT.MIN_FLOW_LINK_WIDTH, LAYOUT.MAX_FLOW_LINK_WIDTH]);
+
+    const drawableLinks = links.filter((l) => nodeById.has(l.source) && nodeById.has(l.target));
+
+    // A kind's pattern wins; otherwise links are dashed, or solid bands when scaled by flow
+    const dasharrayOf = (link: ILink) =>
+      link.kind
+        ? getLinkKind(link.kind).dasharray
+        : flowValueOf(link) === undefined
+          ? DEFAULT_LINK_DASHARRAY
+          : null;
+
+    // The link's own label, followed by its flow when links are scaled by flow
+    const linkLabelText = (link: ILink) =>
+      [link.label, flowMode && link.flow ? formatFlow(link.flow) : undefined].filter(Boolean).join(' · ');
 
     // Draw links with right-angle connectors
-    const linkGroup = mainGroup.append('g').attr('class', 'links');
+    const linkSelection = linkGroup
+      .selectAll<SVGPathElement, ILink>('path.link')
+      .data(drawableLinks, linkKey)
+      .join(
+        (enter) => enter.append('path').attr('class', 'link').attr('fill', 'none').attr('opacity', 0),
+        (update) => update,
+        (exit) => exit.transition(t).attr('opacity', 0).remove()
+      )
+      .attr('stroke', linkStroke)
+      .attr('stroke-dasharray', dasharrayOf)
+      .attr('stroke-linecap', (l) => (l.kind ? getLinkKind(l.kind).linecap ?? null : null))
+      .attr('stroke-opacity', (l) => (flowValueOf(l) === undefined ? null : 0.7))
+      .attr('marker-end', (l) =>
+        flowValueOf(l) === undefined
+          ? `url(#arrowhead-${linkMarkerKey(l)})`
+          : `url(#arrowhead-flow-${linkMarkerKey(l)})`
+      );
 
-    links.forEach((link) => {
-      const source = nodes.find((n) => n.id === link.source);
-      const target = nodes.find((n) => n.id === link.target);
-      if (!source || !target) return;
+    linkSelection
+      .transition(t)
+      .attr('opacity', 1)
+      .attr('d', calculatePathData)
+      .attr('stroke-width', (l) => {
+        // Sankey-style: solid band whose width is proportional to the flow
+        const value = flowValueOf(l);
+        return value === undefined ? 2 : flowWidth(value);
+      });
 
-      const targetType = target.type === 'main_reservoir' 
-        ? (source.type === 'inflow' ? 'inflow' : source.type)
-        : target.type;
-      
-      const color = COLOR_MAP[targetType as keyof typeof COLOR_MAP];
-      const pathData = calculatePathData(link);
+    const linkLabelSelection = linkLabelGroup
+      .selectAll<SVGTextElement, ILink>('text.link-label')
+      .data(drawableLinks.filter(linkLabelText), linkKey)
+      .join(
+        (enter) =>
+          enter
+            .append('text')
+            .attr('class', 'link-label')
+            .attr('text-anchor', 'middle')
+            .attr('font-family', 'sans-serif')
+            .attr('font-size', '10px')
+            .attr('fill', theme.graph.label)
+            .attr('stroke', theme.graph.labelHalo)
+            .attr('stroke-width', 3)
+            .attr('paint-order', 'stroke')
+            .style('pointer-events', 'none')
+            .attr('x', (l) => calculateLabelPosition(l).x)
+            .attr('y', (l) => calculateLabelPosition(l).y),
+        (update) => update,
+        (exit) => exit.remove()
+      )
+      .text(linkLabelText);
 
-      linkGroup
-        .append('path')
-        .attr('class', `link-${link.source}-${link.target}`)
-        .attr('d', pathData)
-        .attr('fill', 'none')
-        .attr('stroke', color.stroke)
-        .attr('stroke-width', 2)
-        .attr('stroke-dasharray', '5,3')
-        .attr('marker-end', `url(#arrowhead-${targetType})`);
-    });
+    linkLabelSelection
+      .transition(t)
+      .attr('x', (l) => calculateLabelPosition(l).x)
+      .attr('y', (l) => calculateLabelPosition(l).y);
 
     // Function to update all links connected to a node
     const updateLinks = () => {
-      links.forEach((link) => {
-        const pathData = calculatePathData(link);
-        linkGroup
-          .select(`.link-${link.source}-${link.target}`)
-          .attr('d', pathData);
-      });
+      linkSelection.attr('d', calculatePathData);
+      linkLabelSelection
+        .attr('x', (l) => calculateLabelPosition(l).x)
+        .attr('y', (l) => calculateLabelPosition(l).y);
     };
 
     // Create drag behavior
+    let dragOrigin: { x: number; y: number; saved: SavedPosition | null } | null = null;
     const dragBehavior = d3.drag<SVGGElement, INode>()
       .on('start', function(event, d) {
-        d3.select(this).raise().style('cursor', 'grabbing');
+        d3.select(this).interrupt().raise().style('cursor', 'grabbing');
+        const saved = positionsKey ? loadSavedPositions(positionsKey)[d.id] : undefined;
+        dragOrigin = { x: d.fx!, y: d.fy!, saved: saved ?? null };
       })
       .on('drag', function(event, d) {
         d.fx = event.x;
@@ -284,169 +821,83 @@ const ReservoirGraph = ({ data }: ReservoirGraphProps) => {
       })
       .on('end', function(event, d) {
         d3.select(this).style('cursor', 'grab');
+        // A click without movement isn't a move
+        if (!positionsKey || !dragOrigin || (dragOrigin.x === d.fx && dragOrigin.y === d.fy)) return;
+        const to = { x: d.fx!, y: d.fy! };
+        saveNodePosition(positionsKey, d.id, to);
+        onNodeMoveRef.current?.({
+          node: data.nodes.find((n) => n.id === d.id) ?? d,
+          positionsKey,
+          from: dragOrigin.saved,
+          to,
+        });
       });
 
     // Draw nodes
-    const nodeGroup = mainGroup.append('g').attr('class', 'nodes');
+    const translate = (node: INode) => `translate(${node.fx},${node.fy})`;
 
-    nodes.forEach((node) => {
-      const g = nodeGroup
-        .append('g')
-        .attr('transform', `translate(${node.fx},${node.fy})`)
-        .style('cursor', 'grab')
-        .datum(node)
-        .call(dragBehavior);
-
-      if (node.type === 'main_reservoir') {
-        // Draw rounded rectangle for main reservoir
-        g.append('rect')
-          .attr('x', -LAYOUT.MAIN_RECT_WIDTH / 2)
-          .attr('y', -LAYOUT.MAIN_RECT_HEIGHT / 2)
-          .attr('width', LAYOUT.MAIN_RECT_WIDTH)
-          .attr('height', LAYOUT.MAIN_RECT_HEIGHT)
-          .attr('rx', LAYOUT.MAIN_RECT_RADIUS)
-          .attr('fill', COLOR_MAP.main_reservoir.fill)
-          .attr('stroke', COLOR_MAP.main_reservoir.stroke)
-          .attr('stroke-width', 2);
-
-        // Add text with wrapping and dynamic font sizing
-        const maxWidth = LAYOUT.MAIN_RECT_WIDTH - LAYOUT.MAIN_RECT_PADDING * 2;
-        const maxHeight = LAYOUT.MAIN_RECT_HEIGHT - LAYOUT.MAIN_RECT_PADDING * 2;
-        
-        // Create a temporary text element to measure
-        const tempText = g.append('text')
-          .attr('font-family', 'sans-serif')
-          .attr('font-weight', '600')
-          .attr('fill', 'white')
-          .style('visibility', 'hidden');
-        
-        // Function to wrap text
-        const wrapText = (text: string, maxWidth: number, fontSize: number) => {
-          const words = text.split(/\s+/);
-          const lines: string[] = [];
-          let currentLine = '';
-          
-          tempText.attr('font-size', `${fontSize}px`);
-          
-          words.forEach((word) => {
-            const testLine = currentLine ? `${currentLine} ${word}` : word;
-            tempText.text(testLine);
-            const width = (tempText.node() as SVGTextElement).getComputedTextLength();
-            
-            if (width > maxWidth && currentLine) {
-              lines.push(currentLine);
-              currentLine = word;
-            } else {
-              currentLine = testLine;
-            }
-          });
-          
-          if (currentLine) {
-            lines.push(currentLine);
-          }
-          
-          return lines;
-        };
-        
-        // Try different font sizes to fit the text
-        let fontSize = 16;
-        let lines: string[] = [];
-        let lineHeight = 0;
-        
-        while (fontSize >= 10) {
-          lines = wrapText(node.label, maxWidth, fontSize);
-          lineHeight = fontSize * 1.2;
-          const totalHeight = lines.length * lineHeight;
-          
-          if (totalHeight <= maxHeight) {
-            break;
-          }
-          fontSize -= 1;
-        }
-        
-        // Remove temporary text
-        tempText.remove();
-        
-        // Calculate starting Y position to center the text block
-        const totalTextHeight = lines.length * lineHeight;
-        const startY = -totalTextHeight / 2 + lineHeight * 0.8;
-        
-        // Draw each line
-        lines.forEach((line, i) => {
-          g.append('text')
-            .attr('x', 0)
-            .attr('y', startY + i * lineHeight)
-            .attr('text-anchor', 'middle')
-            .attr('font-family', 'sans-serif')
-            .attr('font-size', `${fontSize}px`)
-            .attr('font-weight', '600')
-            .attr('fill', 'white')
-            .text(line);
-        });
-      } else {
-        // Draw circle for other nodes
-        const color = COLOR_MAP[node.type as keyof typeof COLOR_MAP];
-        
-        g.append('circle')
-          .attr('r', LAYOUT.NODE_RADIUS)
-          .attr('fill', color.fill)
-          .attr('stroke', color.stroke)
-          .attr('stroke-width', 2);
-
-        // Position labels: left side (inflows) to the left, right side to the right
-        const isInflow = node.type === 'inflow';
-        const textX = isInflow ? -20 : 20;
-        const textAnchor = isInflow ? 'end' : 'start';
-
-        // Add label with white outline
-        g.append('text')
-          .attr('x', textX)
-          .attr('y', 5)
-          .attr('text-anchor', textAnchor)
-          .attr('font-family', 'sans-serif')
-          .attr('font-size', '13px')
-          .attr('stroke', 'white')
-          .attr('stroke-width', 3)
-          .attr('stroke-linejoin', 'round')
-          .style('pointer-events', 'none')
-          .text(node.label);
-
-        g.append('text')
-          .attr('x', textX)
-          .attr('y', 5)
-          .attr('text-anchor', textAnchor)
-          .attr('font-family', 'sans-serif')
-          .attr('font-size', '13px')
-          .attr('fill', '#333')
-          .style('pointer-events', 'none')
-          .text(node.label);
-      }
-    });
+    nodeGroup
+      .selectAll<SVGGElement, INode>('g.node')
+      .data(nodes, (d) => d.id)
+      .join(
+        (enter) =>
+          enter
+            .append('g')
+            .attr('class', 'node')
+            .attr('transform', translate)
+            .style('opacity', 0),
+        (update) => update,
+        (exit) => exit.transition(t).style('opacity', 0).remove()
+      )
+      .style('cursor', 'grab')
+      .attr('role', 'button')
+      .attr('aria-label', (node) => describeNode(node, data))
+      .call(dragBehavior)
+      .on('click', (event, node) => {
+        onNodeClickRef.current?.(data.nodes.find((n) => n.id === node.id) ?? node);
+      })
+      .on('focus', (event, node) => setActiveNodeId(node.id))
+      .each(function (node) {
+        drawNodeContent(d3.select(this), node, labelSideOf(node), labelLines.get(node.id) ?? [node.label], theme);
+      })
+      .transition(t)
+      .style('opacity', 1)
+      .attr('transform', translate);
 
-    // Draw compact legend below the bottommost node
-    const legendItems = [
-      { type: 'inflow', label: 'Inflows' },
-      { type: 'outflow', label: 'Outflows' },
-      { type: 'project', label: 'Projects' },
-      { type: 'main_reservoir', label: 'Main' },
-    ];
+    // Draw compact legend below the bottommost node, listing the types shown in registry order
+    const shownTypes = new Set(nodes.map((n) => n.type));
+    const legendItems = [...new Set([...listNodeTypes(), ...shownTypes])]
+      .filter((type) => shownTypes.has(type))
+      .map((type) => ({ type, ...getNodeType(type) }));
+    // Then a section for the link kinds shown, if any
+    const shownKinds = new Set(drawableLinks.flatMap((l) => (l.kind ? [l.kind] : [])));
+    const legendLinkItems = [...new Set([...listLinkKinds(), ...shownKinds])]
+      .filter((kind) => shownKinds.has(kind))
+      .map(getLinkKind);
+    const legendWidth = Math.max(
+      LAYOUT.LEGEND_WIDTH,
+      ...legendItems.map((item) => 23 + item.legendLabel.length * LAYOUT.LEGEND_CHAR_WIDTH),
+      ...legendLinkItems.map((item) => 33 + item.legendLabel.length * LAYOUT.LEGEND_CHAR_WIDTH)
+    );
 
     const bottomMostY = Math.max(...nodes.map(n => n.fy || 0));
-    const legendHeight = legendItems.length * LAYOUT.LEGEND_ITEM_HEIGHT + LAYOUT.LEGEND_PADDING;
-    const legendX = maxX - LAYOUT.LEGEND_WIDTH - 10;
+    const legendRows = legendItems.length + (legendLinkItems.length > 0 ? legendLinkItems.length + 1 : 0);
+    const legendHeight = legendRows * LAYOUT.LEGEND_ITEM_HEIGHT + LAYOUT.LEGEND_PADDING;
+    const legendX = maxX - legendWidth - 10;
     const legendY = bottomMostY + LAYOUT.LEGEND_OFFSET;
 
-    const legend = mainGroup.append('g').attr('class', 'legend');
+    const legend = mainGroup.select<SVGGElement>('g.legend');
+    legend.selectAll('*').remove();
 
     // Legend background
     legend
       .append('rect')
       .attr('x', legendX)
       .attr('y', legendY)
-      .attr('width', LAYOUT.LEGEND_WIDTH)
+      .attr('width', legendWidth)
       .attr('height', legendHeight)
-      .attr('fill', 'white')
-      .attr('stroke', '#999')
+      .attr('fill', theme.graph.legendBackground)
+      .attr('stroke', theme.graph.legendBorder)
       .attr('stroke-width', 1)
       .attr('rx', 4)
       .attr('opacity', 0.95);
@@ -459,22 +910,20 @@ const ReservoirGraph = ({ data }: ReservoirGraphProps) => {
       .attr('font-family', 'sans-serif')
       .attr('font-size', '8px')
       .attr('font-weight', '700')
-      .attr('fill', '#333')
+      .attr('fill', theme.graph.label)
       .text('Legend');
 
     // Legend items (stacked vertically)
     legendItems.forEach((item, i) => {
-      const color = COLOR_MAP[item.type as keyof typeof COLOR_MAP];
       const itemY = legendY + 23 + i * LAYOUT.LEGEND_ITEM_HEIGHT;
 
-      legend
-        .append('circle')
-        .attr('cx', legendX + 9)
-        .attr('cy', itemY)
-        .attr('r', 3.5)
-        .attr('fill', color.fill)
-        .attr('stroke', color.stroke)
-        .attr('stroke-width', 0.7);
+      appendSymbol(
+        legend.append('g').attr('transform', `translate(${legendX + 9},${itemY})`),
+        item.shape,
+        3.5,
+        nodeColors(theme, item.type),
+        0.7
+      );
 
       legend
         .append('text')
@@ -482,16 +931,161 @@ const ReservoirGraph = ({ data }: ReservoirGraphProps) => {
         .attr('y', itemY + 3)
         .attr('font-family', 'sans-serif')
         .attr('font-size', '7px')
-        .attr('fill', '#333')
-        .text(item.label);
+        .attr('fill', theme.graph.label)
+        .text(item.legendLabel);
     });
-    // Cleanup function
-    return () => {
-      if (zoomBehaviorRef.current && svgRef.current) {
-        d3.select(svgRef.current).on('.zoom', null);
+
+    if (legendLinkItems.length === 0) return;
+
+    // Link kinds, each with a sample of its stroke pattern at half scale
+    const linksTitleY = legendY + 23 + legendItems.length * LAYOUT.LEGEND_ITEM_HEIGHT;
+    legend
+      .append('text')
+      .attr('x', legendX + 7)
+      .attr('y', linksTitleY + 3)
+      .attr('font-family', 'sans-serif')
+      .attr('font-size', '7px')
+      .attr('font-weight', '700')
+      .attr('fill', theme.graph.label)
+      .text('Links');
+
+    legendLinkItems.forEach((item, i) => {
+      const itemY = linksTitleY + (i + 1) * LAYOUT.LEGEND_ITEM_HEIGHT;
+
+      legend
+        .append('line')
+        .attr('x1', legendX + 7)
+        .attr('x2', legendX + 23)
+        .attr('y1', itemY)
+        .attr('y2', itemY)
+        .attr('stroke', item.colors?.[theme.palette] ?? theme.graph.label)
+        .attr('stroke-width', 1)
+        .attr('stroke-dasharray', item.dasharray && item.dasharray.split(',').map((n) => Number(n) / 2).join(','))
+        .attr('stroke-linecap', item.linecap ?? null);
+
+      legend
+        .append('text')
+        .attr('x', legendX + 26)
+        .attr('y', itemY + 3)
+        .attr('font-family', 'sans-serif')
+        .attr('font-size', '7px')
+        .attr('fill', theme.graph.label)
+        .text(item.legendLabel);
+    });
+  }, [data, linkWidthMode, layoutStrategy, positionsKey, layoutVersion, positionsRevision, theme]);
+
+  // Ring the focused and highlighted nodes, and centre the view on the focus when it changes
+  useEffect(() => {
+    if (!svgRef.current || !zoomBehaviorRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    const nodeGroup = svg.select<SVGGElement>('g.main-group').select<SVGGElement>('g.nodes');
+    nodeGroup.selectAll('.focus-ring, .highlight-ring').remove();
+
+    const highlighted = new Set(highlightKey.split('\n'));
+    nodeGroup.selectAll<SVGGElement, INode>('g.node').each(function (node) {
+      if (node.id === focusNodeId) {
+        drawNodeRing(d3.select(this), node, 'focus-ring', theme.graph.focusRing);
+      } else if (highlighted.has(node.id)) {
+        drawNodeRing(d3.select(this), node, 'highlight-ring', theme.graph.highlightRing);
       }
-    };
-  }, [data]);
+    });
+
+    const focused = nodesRef.current.find((n) => n.id === focusNodeId);
+    if (!focused) {
+      zoomedFocusRef.current = null;
+      return;
+    }
+    if (zoomedFocusRef.current === focused.id) return;
+    zoomedFocusRef.current = focused.id;
+
+    const { x, y, width, height } = viewBoxRef.current;
+    const k = ZOOM.FOCUS_SCALE;
+    const transform = d3.zoomIdentity
+      .translate(x + width / 2 - k * focused.fx!, y + height / 2 - k * focused.fy!)
+      .scale(k);
+    svg
+      .transition(d3.transition().duration(ANIMATION.TRANSITION_MS))
+      .call(zoomBehaviorRef.current.transform, transform);
+  }, [
+    focusNodeId,
+    highlightKey,
+    data,
+    linkWidthMode,
+    layoutStrategy,
+    positionsKey,
+    layoutVersion,
+    positionsRevision,
+    theme,
+  ]);
+
+  // The node keyboard commands apply to: the active one while it is on screen, else the first reservoir
+  const keyboardNode = () =>
+    nodesRef.current.find((n) => n.id === activeNodeId) ??
+    nodesRef.current.find((n) => n.type === 'main_reservoir') ??
+    nodesRef.current[0];
+
+  // Keep only the keyboard node in the tab order, and move the browser focus to it after an arrow key
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = svgRef.current;
+    const current = keyboardNode()?.id;
+    d3.select(svg)
+      .select<SVGGElement>('g.main-group')
+      .select<SVGGElement>('g.nodes')
+      .selectAll<SVGGElement, INode>('g.node')
+      .each(function (node) {
+        d3.select(this).attr('tabindex', node.id === current ? 0 : -1);
+        // Never pull the focus in from outside the graph
+        if (node.id === current && svg.contains(document.activeElement) && document.activeElement !== this) {
+          this.focus();
+        }
+      });
+  }, [activeNodeId, data, linkWidthMode, layoutStrategy, positionsKey, layoutVersion, positionsRevision]);
+
+  // Follow an externally controlled transform without reporting it back
+  useEffect(() => {
+    if (!zoomTransform || !svgRef.current || !zoomBehaviorRef.current) return;
+    const current = zoomStateRef.current;
+    if (current && current.x === zoomTransform.x && current.y === zoomTransform.y && current.k === zoomTransform.k) {
+      return;
+    }
+    applyingZoomRef.current = true;
+    d3.select(svgRef.current).call(
+      zoomBehaviorRef.current.transform,
+      d3.zoomIdentity.translate(zoomTransform.x, zoomTransform.y).scale(zoomTransform.k)
+    );
+    applyingZoomRef.current = false;
+  }, [zoomTransform?.x, zoomTransform?.y, zoomTransform?.k]);
+
+  // Advance the timeline while playing; stop after the current configuration
+  const timelineDates = timeline?.dates;
+  const currentDate = timeline?.currentDate ?? null;
+  const onDateChange = timeline?.onDateChange;
+  useEffect(() => {
+    if (!isPlaying || !timelineDates || !onDateChange) return;
+
+    const index = currentDate === null ? timelineDates.length : timelineDates.indexOf(currentDate);
+    if (index >= timelineDates.length) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(
+      () => onDateChange(timelineDates[index + 1] ?? null),
+      ANIMATION.PLAYBACK_INTERVAL_MS
+    );
+    return () => clearTimeout(timer);
+  }, [isPlaying, timelineDates, currentDate, onDateChange]);
+
+  const handlePlayPause = () => {
+    if (!timeline) return;
+    if (!isPlaying && timeline.currentDate === null) {
+      // Restart from the first snapshot when playback has reached the end
+      timeline.onDateChange(timeline.dates[0]);
+    }
+    setIsPlaying(!isPlaying);
+  };
 
   const handleZoomIn = () => {
     if (svgRef.current && zoomBehaviorRef.current) {
@@ -513,9 +1107,79 @@ const ReservoirGraph = ({ data }: ReservoirGraphProps) => {
     }
   };
 
+  const handlePan = ([dirX, dirY]: [number, number]) => {
+    if (svgRef.current && zoomBehaviorRef.current) {
+      const step = ZOOM.PAN_STEP / (zoomStateRef.current?.k ?? ZOOM.INITIAL_SCALE);
+      d3.select(svgRef.current)
+        .transition()
+        .call(zoomBehaviorRef.current.translateBy, -dirX * step, -dirY * step);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<SVGSVGElement>) => {
+    // Leave browser and app shortcuts (Ctrl+Z, Ctrl+- …) alone
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+    const direction = ARROW_DIRECTIONS[event.key];
+    const node = keyboardNode();
+    if (direction && event.shiftKey) {
+      handlePan(direction);
+    } else if (direction) {
+      const next = node && findNodeInDirection(nodesRef.current, data.links, node, direction);
+      if (next) setActiveNodeId(next.id);
+    } else if (event.key === 'Enter' || event.key === ' ') {
+      if (node) onNodeClickRef.current?.(data.nodes.find((n) => n.id === node.id) ?? node);
+    } else if (event.key === '+' || event.key === '=') {
+      handleZoomIn();
+    } else if (event.key === '-') {
+      handleZoomOut();
+    } else if (event.key === '0') {
+      handleResetZoom();
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  const handleResetLayout = () => {
+    if (positionsKey) clearSavedPositions(positionsKey);
+    setLayoutVersion((version) => version + 1);
+  };
+
+  const handleExportSvg = () => {
+    if (!svgRef.current) return;
+    const { text } = serializeSvg(svgRef.current);
+    downloadBlob(new Blob([text], { type: 'image/svg+xml' }), exportFileName(exportName, 'svg'));
+    setIsExportOpen(false);
+  };
+
+  const handleExportPng = async () => {
+    if (!svgRef.current) return;
+    const { text, width, height } = serializeSvg(svgRef.current);
+    try {
+      const blob = await renderPng(text, width, height, pngScale);
+      downloadBlob(blob, exportFileName(exportName, 'png'));
+      setExportError(null);
+      setIsExportOpen(false);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
   return (
     <div style={{ position: 'relative', width: '100%', height: '100%' }}>
-      <svg ref={svgRef} style={{ width: '100%', height: '100%', background: '#F5F5F0' }} />
+      <svg
+        ref={svgRef}
+        role="group"
+        aria-label="Reservoir network"
+        aria-describedby={instructionsId}
+        onKeyDown={handleKeyDown}
+        style={{ width: '100%', height: '100%', background: theme.graph.background }}
+      />
+      <p id={instructionsId} hidden>
+        Arrow keys move between connected nodes and Enter opens a node's details. Plus and minus zoom, 0
+        resets the zoom, and Shift with an arrow key pans.
+      </p>
       
       {/* Zoom Controls */}
       <div
@@ -526,18 +1190,18 @@ const ReservoirGraph = ({ data }: ReservoirGraphProps) => {
           display: 'flex',
           flexDirection: 'column',
           gap: '8px',
-          background: 'white',
+          background: theme.chrome.surface,
           padding: '8px',
           borderRadius: '6px',
-          boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
-          border: '1px solid #ccc',
+          boxShadow: `0 2px 8px ${theme.chrome.shadow}`,
+          border: `1px solid ${theme.chrome.border}`,
         }}
       >
         <button
           onClick={handleZoomIn}
-          style={{ ...BUTTON_STYLE, fontSize: '18px', fontWeight: 'bold' }}
-          onMouseEnter={(e) => (e.currentTarget.style.background = '#f0f0f0')}
-          onMouseLeave={(e) => (e.currentTarget.style.background = 'white')}
+          style={{ ...buttonStyle, fontSize: '18px', fontWeight: 'bold' }}
+          onMouseEnter={(e) => (e.currentTarget.style.background = theme.chrome.hover)}
+          onMouseLeave={(e) => (e.currentTarget.style.background = theme.chrome.surface)}
           title="Zoom In"
           aria-label="Zoom In"
         >
@@ -545,9 +1209,9 @@ const ReservoirGraph = ({ data }: ReservoirGraphProps) => {
         </button>
         <button
           onClick={handleZoomOut}
-          style={{ ...BUTTON_STYLE, fontSize: '18px', fontWeight: 'bold' }}
-          onMouseEnter={(e) => (e.currentTarget.style.background = '#f0f0f0')}
-          onMouseLeave={(e) => (e.currentTarget.style.background = 'white')}
+          style={{ ...buttonStyle, fontSize: '18px', fontWeight: 'bold' }}
+          onMouseEnter={(e) => (e.currentTarget.style.background = theme.chrome.hover)}
+          onMouseLeave={(e) => (e.currentTarget.style.background = theme.chrome.surface)}
           title="Zoom Out"
           aria-label="Zoom Out"
         >
@@ -555,18 +1219,39 @@ const ReservoirGraph = ({ data }: ReservoirGraphProps) => {
         </button>
         <button
           onClick={handleResetZoom}
-          style={{ ...BUTTON_STYLE, fontSize: '16px' }}
-          onMouseEnter={(e) => (e.currentTarget.style.background = '#f0f0f0')}
-          onMouseLeave={(e) => (e.currentTarget.style.background = 'white')}
+          style={{ ...buttonStyle, fontSize: '16px' }}
+          onMouseEnter={(e) => (e.currentTarget.style.background = theme.chrome.hover)}
+          onMouseLeave={(e) => (e.currentTarget.style.background = theme.chrome.surface)}
           title="Reset Zoom"
           aria-label="Reset Zoom"
         >
           ⊙
         </button>
+        <button
+          onClick={handleResetLayout}
+          style={{ ...buttonStyle, fontSize: '16px' }}
+          onMouseEnter={(e) => (e.currentTarget.style.background = theme.chrome.hover)}
+          onMouseLeave={(e) => (e.currentTarget.style.background = theme.chrome.surface)}
+          title="Reset Layout"
+          aria-label="Reset Layout"
+        >
+          ↺
+        </button>
+        <button
+          onClick={() => setIsExportOpen(!isExportOpen)}
+          style={{ ...buttonStyle, fontSize: '16px' }}
+          onMouseEnter={(e) => (e.currentTarget.style.background = theme.chrome.hover)}
+          onMouseLeave={(e) => (e.currentTarget.style.background = theme.chrome.surface)}
+          title="Export"
+          aria-label="Export"
+          aria-expanded={isExportOpen}
+        >
+          ⤓
+        </button>
         <div
           style={{
             fontSize: '10px',
-            color: '#666',
+            color: theme.chrome.mutedText,
             textAlign: 'center',
             marginTop: '4px',
           }}
@@ -574,6 +1259,100 @@ const ReservoirGraph = ({ data }: ReservoirGraphProps) => {
           {Math.round(zoomLevel * 100)}%
         </div>
       </div>
+
+      {/* Export Menu */}
+      {isExportOpen && (
+        <div
+          role="menu"
+          aria-label="Export graph"
+          style={{
+            position: 'absolute',
+            bottom: '20px',
+            left: '80px',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '8px',
+            background: theme.chrome.surface,
+            color: theme.chrome.text,
+            padding: '10px 12px',
+            borderRadius: '6px',
+            boxShadow: `0 2px 8px ${theme.chrome.shadow}`,
+            border: `1px solid ${theme.chrome.border}`,
+            fontSize: '13px',
+          }}
+        >
+          <button role="menuitem" onClick={handleExportSvg} style={{ cursor: 'pointer' }}>
+            Download SVG
+          </button>
+          <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+            <button role="menuitem" onClick={handleExportPng} style={{ cursor: 'pointer', flex: 1 }}>
+              Download PNG
+            </button>
+            <select
+              value={pngScale}
+              onChange={(e) => setPngScale(Number(e.target.value))}
+              aria-label="PNG resolution"
+            >
+              {PNG_SCALES.map((scale) => (
+                <option key={scale} value={scale}>
+                  {scale}×
+                </option>
+              ))}
+            </select>
+          </div>
+          {exportError && <div style={{ color: theme.chrome.error, maxWidth: '200px' }}>{exportError}</div>}
+        </div>
+      )}
+
+      {/* Timeline Controls */}
+      {timeline && timeline.dates.length > 0 && (
+        <div
+          style={{
+            position: 'absolute',
+            bottom: '20px',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '12px',
+            background: theme.chrome.surface,
+            padding: '8px 12px',
+            borderRadius: '6px',
+            boxShadow: `0 2px 8px ${theme.chrome.shadow}`,
+            border: `1px solid ${theme.chrome.border}`,
+          }}
+        >
+          <button
+            onClick={handlePlayPause}
+            style={{ ...buttonStyle, fontSize: '14px' }}
+            onMouseEnter={(e) => (e.currentTarget.style.background = theme.chrome.hover)}
+            onMouseLeave={(e) => (e.currentTarget.style.background = theme.chrome.surface)}
+            title={isPlaying ? 'Pause' : 'Play'}
+            aria-label={isPlaying ? 'Pause' : 'Play'}
+          >
+            {isPlaying ? '❚❚' : '▶'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={timeline.dates.length}
+            value={
+              timeline.currentDate === null
+                ? timeline.dates.length
+                : timeline.dates.indexOf(timeline.currentDate)
+            }
+            onChange={(e) => {
+              setIsPlaying(false);
+              timeline.onDateChange(timeline.dates[Number(e.target.value)] ?? null);
+            }}
+            aria-label="Timeline"
+            style={{ width: '240px' }}
+          />
+          <div style={{ fontSize: '12px', color: theme.chrome.text, minWidth: '80px' }}>
+            {timeline.currentDate ?? 'Current'}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import SearchBox from './SearchBox';
+import type { ReservoirConfig } from '@data/reservoirData';
+
+describe('SearchBox', () => {
+  const reservoirs: ReservoirConfig[] = [
+    {
+      reservoir_id: 1,
+      reservoir_name: 'Emerald Lake',
+      inflow: [{ id: 'creek', name: 'Emerald Creek' }],
+      outflow: [],
+      projects: [{ id: 'hydro', name: 'Hydro Plant' }],
+    },
+  ];
+
+  it('should list fuzzy matches with their reservoir', () => {
+    render(<SearchBox reservoirs={reservoirs} onSelect={vi.fn()} />);
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'hpl' } });
+
+    const options = screen.getAllByRole('option');
+    expect(options).toHaveLength(1);
+    expect(options[0]).toHaveTextContent('Hydro Plant');
+    expect(options[0]).toHaveTextContent('Project of Emerald Lake');
+  });
+
+  it('should choose the active result with the arrow keys and Enter', () => {
+    const onSelect = vi.fn();
+    render(<SearchBox reservoirs={reservoirs} onSelect={onSelect} />);
+    const input = screen.getByRole('combobox');
+    fireEvent.change(input, { target: { value: 'emerald' } });
+    expect(screen.getAllByRole('option')[0]).toHaveAttribute('aria-selected', 'true');
+
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    const active = screen.getAllByRole('option')[1];
+    expect(active).toHaveAttribute('aria-selected', 'true');
+    expect(input).toHaveAttribute('aria-activedescendant', active.id);
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onSelect).toHaveBeenCalledTimes(1);
+    expect(onSelect.mock.calls[0][0]).toMatchObject({ reservoirId: 1 });
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+
+  it('should choose a result by clicking it', () => {
+    const onSelect = vi.fn();
+    render(<SearchBox reservoirs={reservoirs} onSelect={onSelect} />);
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'creek' } });
+    fireEvent.click(screen.getByRole('option'));
+
+    expect(onSelect).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Emerald Creek', type: 'inflow', reservoirId: 1 })
+    );
+    expect(screen.getByRole('combobox')).toHaveValue('Emerald Creek');
+  });
+
+  it('should close the results on Escape', () => {
+    render(<SearchBox reservoirs={reservoirs} onSelect={vi.fn()} />);
+    const input = screen.getByRole('combobox');
+    fireEvent.change(input, { target: { value: 'lake' } });
+    expect(screen.getByRole('listbox')).toBeInTheDocument();
+
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,143 @@
+import { useMemo, useState } from 'react';
+import type { ReservoirConfig } from '@data/reservoirData';
+import { buildSearchIndex, searchIndex } from '@data/reservoirSearch';
+import type { SearchEntry, SearchResult } from '@data/reservoirSearch';
+import { getNodeType } from '@data/nodeTypes';
+import { useTheme } from './theme';
+
+interface SearchBoxProps {
+  reservoirs: ReservoirConfig[];
+  onSelect: (entry: SearchEntry) => void;
+}
+
+const RESULT_LIMIT = 8;
+
+/** The result name with matched characters in bold */
+const HighlightedName = ({ result }: { result: SearchResult }) => {
+  const matched = new Set(result.indices);
+  return (
+    <>
+      {Array.from(result.entry.name).map((char, i) =>
+        matched.has(i) ? <strong key={i}>{char}</strong> : <span key={i}>{char}</span>
+      )}
+    </>
+  );
+};
+
+const SearchBox = ({ reservoirs, onSelect }: SearchBoxProps) => {
+  const { theme } = useTheme();
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const index = useMemo(() => buildSearchIndex(reservoirs), [reservoirs]);
+  const results = useMemo(() => searchIndex(index, query, RESULT_LIMIT), [index, query]);
+  const showResults = isOpen && results.length > 0;
+
+  const choose = (result: SearchResult) => {
+    onSelect(result.entry);
+    setQuery(result.entry.name);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (!showResults) {
+        setIsOpen(true);
+        return;
+      }
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((activeIndex + step + results.length) % results.length);
+    } else if (event.key === 'Enter' && showResults) {
+      event.preventDefault();
+      choose(results[activeIndex]);
+    } else if (event.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <input
+        type="search"
+        role="combobox"
+        aria-label="Search reservoirs and connections"
+        aria-expanded={showResults}
+        aria-controls="reservoir-search-results"
+        aria-autocomplete="list"
+        aria-activedescendant={showResults ? `reservoir-search-result-${activeIndex}` : undefined}
+        placeholder="Search…"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        style={{
+          width: '220px',
+          padding: '8px 12px',
+          fontSize: '14px',
+          border: `1px solid ${theme.chrome.border}`,
+          borderRadius: '6px',
+          background: theme.chrome.surface,
+          color: theme.chrome.text,
+        }}
+      />
+      {showResults && (
+        <ul
+          id="reservoir-search-results"
+          role="listbox"
+          aria-label="Search results"
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 4px)',
+            left: 0,
+            zIndex: 5,
+            width: '320px',
+            margin: 0,
+            padding: '4px 0',
+            listStyle: 'none',
+            background: theme.chrome.surface,
+            border: `1px solid ${theme.chrome.border}`,
+            borderRadius: '6px',
+            boxShadow: `0 2px 8px ${theme.chrome.shadow}`,
+            fontSize: '13px',
+            color: theme.chrome.text,
+          }}
+        >
+          {results.map((result, i) => (
+            <li
+              key={`${result.entry.reservoirId}:${result.entry.nodeId}`}
+              id={`reservoir-search-result-${i}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              // Keep focus in the input so blur doesn't close the list before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(result)}
+              onMouseEnter={() => setActiveIndex(i)}
+              style={{
+                padding: '6px 12px',
+                cursor: 'pointer',
+                background: i === activeIndex ? theme.chrome.hover : 'transparent',
+              }}
+            >
+              <div>
+                <HighlightedName result={result} />
+              </div>
+              <div style={{ color: theme.chrome.mutedText, fontSize: '12px' }}>
+                {getNodeType(result.entry.type).label}
+                {result.entry.type !== 'main_reservoir' && ` of ${result.entry.reservoirName}`}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
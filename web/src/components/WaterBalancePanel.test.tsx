@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import WaterBalancePanel from './WaterBalancePanel';
+import { computeWaterBalance } from '@data/reservoirData';
+import type { ReservoirConfig } from '@data/reservoirData';
+
+describe('WaterBalancePanel', () => {
+  const reservoir: ReservoirConfig = {
+    reservoir_id: 101,
+    reservoir_name: 'Emerald Lake',
+    inflow: [
+      { id: 'stone-creek', name: 'Stone Creek', flow: { value: 2, unit: 'm3/s' } },
+      { id: 'mill-brook', name: 'Mill Brook', flow: { value: 500, unit: 'L/s' } },
+      { id: 'snowmelt', name: 'Snowmelt', flow: { value: 3, unit: 'gpm' } },
+      { id: 'ridge-spring', name: 'Ridge Spring' },
+    ],
+    outflow: [{ id: 'valley-canal', name: 'Valley Canal', flow: { value: 1, unit: 'm3/s' } }],
+    projects: [
+      { id: 'irrigation', name: 'Irrigation', flow: { value: 86.4, unit: 'ML/d' } },
+      { id: 'hydro', name: 'Hydro Plant', flow: { value: 3, unit: 'm3/s' }, consumptive: false },
+    ],
+  };
+
+  const row = (label: string) => within(screen.getByText(label).parentElement as HTMLElement);
+
+  it('should total mixed units and count only consumptive projects', () => {
+    render(<WaterBalancePanel reservoirName="Emerald Lake" balance={computeWaterBalance(reservoir)} />);
+
+    expect(row('Total in').getByText('2.5 m3/s')).toBeInTheDocument();
+    expect(row('Total out').getByText('1 m3/s')).toBeInTheDocument();
+    // The hydro plant returns its water, so only irrigation is consumed
+    expect(row('Consumptive use').getByText('1 m3/s')).toBeInTheDocument();
+    expect(row('Net storage change').getByText('+0.5 m3/s')).toBeInTheDocument();
+  });
+
+  it('should warn about an imbalance and list connections it could not measure', () => {
+    render(<WaterBalancePanel reservoirName="Emerald Lake" balance={computeWaterBalance(reservoir)} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Imbalance of 20% exceeds tolerance');
+    // An unknown unit counts the same as no flow at all
+    expect(screen.getByText('No flow data for: Snowmelt, Ridge Spring')).toBeInTheDocument();
+  });
+
+  it('should show the totals in the chosen unit', () => {
+    const balanced: ReservoirConfig = {
+      ...reservoir,
+      inflow: reservoir.inflow.slice(0, 1),
+      outflow: [{ id: 'valley-canal', name: 'Valley Canal', flow: { value: 1, unit: 'm3/s' } }],
+    };
+    render(<WaterBalancePanel reservoirName="Emerald Lake" balance={computeWaterBalance(balanced, { unit: 'L/s' })} />);
+
+    expect(screen.getByLabelText('Water balance')).toHaveTextContent('Emerald Lake');
+    expect(row('Total in').getByText('2,000 L/s')).toBeInTheDocument();
+    expect(row('Net storage change').getByText('0 L/s')).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(screen.queryByText(/No flow data/)).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,79 @@
+import { formatFlow } from '@data/flowUnits';
+import type { WaterBalance } from '@data/reservoirData';
+import { useTheme } from './theme';
+
+interface WaterBalancePanelProps {
+  reservoirName: string;
+  balance: WaterBalance;
+}
+
+const ROW_STYLE: React.CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  padding: '4px 0',
+};
+
+const WaterBalancePanel = ({ reservoirName, balance }: WaterBalancePanelProps) => {
+  const { theme } = useTheme();
+  const flow = (value: number) => formatFlow({ value, unit: balance.unit });
+  const rows = [
+    { label: 'Total in', value: balance.totalIn },
+    { label: 'Total out', value: balance.totalOut },
+    { label: 'Consumptive use', value: balance.consumptiveUse },
+  ];
+
+  return (
+    <aside
+      aria-label="Water balance"
+      style={{
+        width: '260px',
+        padding: '16px',
+        background: theme.chrome.surface,
+        borderLeft: `1px solid ${theme.chrome.divider}`,
+        fontSize: '13px',
+        color: theme.chrome.text,
+        overflowY: 'auto',
+      }}
+    >
+      <h2 style={{ margin: '0 0 4px', fontSize: '15px' }}>Water balance</h2>
+      <div style={{ color: theme.chrome.mutedText, marginBottom: '12px' }}>{reservoirName}</div>
+
+      {rows.map((row) => (
+        <div key={row.label} style={ROW_STYLE}>
+          <span>{row.label}</span>
+          <span>{flow(row.value)}</span>
+        </div>
+      ))}
+      <div style={{ ...ROW_STYLE, borderTop: `1px solid ${theme.chrome.divider}`, marginTop: '4px', fontWeight: 600 }}>
+        <span>Net storage change</span>
+        <span>
+          {balance.netStorageChange > 0 ? '+' : ''}
+          {flow(balance.netStorageChange)}
+        </span>
+      </div>
+
+      {balance.exceedsTolerance && (
+        <div
+          role="alert"
+          style={{
+            marginTop: '12px',
+            padding: '8px',
+            borderRadius: '4px',
+            background: theme.chrome.warningBackground,
+            color: theme.chrome.warning,
+          }}
+        >
+          Imbalance of {Math.round(balance.imbalanceRatio * 100)}% exceeds tolerance
+        </div>
+      )}
+
+      {balance.unmeasured.length > 0 && (
+        <div style={{ marginTop: '12px', color: theme.chrome.mutedText }}>
+          No flow data for: {balance.unmeasured.join(', ')}
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default WaterBalancePanel;
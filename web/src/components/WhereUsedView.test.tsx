@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import WhereUsedView from './WhereUsedView';
+import type { ReservoirConfig } from '@data/reservoirData';
+
+describe('WhereUsedView', () => {
+  const reservoirs: ReservoirConfig[] = [
+    {
+      reservoir_id: 1,
+      reservoir_name: 'Upper Lake',
+      inflow: [{ id: 'stone-creek', name: 'Stone Creek' }],
+      outflow: [{ id: 'main-canal', name: 'Main Canal' }],
+      projects: [],
+    },
+    {
+      reservoir_id: 2,
+      reservoir_name: 'Lower Lake',
+      inflow: [{ id: 'main-canal', name: 'Main Canal' }],
+      outflow: [],
+      projects: [{ id: 'stone-creek', name: 'Stone Creek' }],
+    },
+  ];
+
+  const rowOf = (name: string) => screen.getByText(name).closest('tr') as HTMLElement;
+
+  it('should list every reservoir and role that uses a name', () => {
+    render(<WhereUsedView reservoirs={reservoirs} onSelectReservoir={vi.fn()} />);
+
+    const canal = within(rowOf('Main Canal'));
+    expect(canal.getByRole('button', { name: 'Upper Lake' })).toBeInTheDocument();
+    expect(canal.getByText('as outflow')).toBeInTheDocument();
+    expect(canal.getByRole('button', { name: 'Lower Lake' })).toBeInTheDocument();
+    expect(canal.getByText('as inflow')).toBeInTheDocument();
+  });
+
+  it('should filter by name and role', () => {
+    render(<WhereUsedView reservoirs={reservoirs} onSelectReservoir={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Filter connection names'), { target: { value: 'stone' } });
+    expect(screen.queryByText('Main Canal')).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Role'), { target: { value: 'project' } });
+    const stone = within(rowOf('Stone Creek'));
+    expect(stone.getByRole('button', { name: 'Lower Lake' })).toBeInTheDocument();
+    expect(stone.queryByRole('button', { name: 'Upper Lake' })).not.toBeInTheDocument();
+  });
+
+  it('should select a reservoir from a reference', () => {
+    const onSelectReservoir = vi.fn();
+    render(<WhereUsedView reservoirs={reservoirs} onSelectReservoir={onSelectReservoir} />);
+
+    fireEvent.click(within(rowOf('Main Canal')).getByRole('button', { name: 'Lower Lake' }));
+    expect(onSelectReservoir).toHaveBeenCalledWith(2);
+  });
+});
@@ -0,0 +1,143 @@
+import { useMemo, useState } from 'react';
+import { buildWhereUsedIndex } from '@data/reservoirData';
+import type { ConnectionRole, ReservoirConfig } from '@data/reservoirData';
+import { useTheme } from './theme';
+
+interface WhereUsedViewProps {
+  reservoirs: ReservoirConfig[];
+  onSelectReservoir: (reservoirId: number) => void;
+}
+
+const CELL_STYLE: React.CSSProperties = {
+  padding: '8px 12px',
+  textAlign: 'left',
+  verticalAlign: 'top',
+};
+
+const LINK_BUTTON_STYLE: React.CSSProperties = {
+  border: 'none',
+  background: 'none',
+  padding: 0,
+  textDecoration: 'underline',
+  cursor: 'pointer',
+  fontSize: '13px',
+};
+
+const CONTROL_STYLE: React.CSSProperties = {
+  padding: '8px 12px',
+  fontSize: '14px',
+  borderRadius: '6px',
+};
+
+const WhereUsedView = ({ reservoirs, onSelectReservoir }: WhereUsedViewProps) => {
+  const { theme } = useTheme();
+  const [filter, setFilter] = useState('');
+  const [role, setRole] = useState<ConnectionRole | 'all'>('all');
+
+  const entries = useMemo(
+    () =>
+      [...buildWhereUsedIndex(reservoirs).values()].sort((a, b) => a.names[0].localeCompare(b.names[0])),
+    [reservoirs]
+  );
+
+  // A name is listed when any spelling matches the filter; only references in the chosen role are shown
+  const rows = entries
+    .filter((entry) => entry.names.some((name) => name.toLowerCase().includes(filter.trim().toLowerCase())))
+    .map((entry) => ({
+      entry,
+      references: entry.references.filter((r) => role === 'all' || r.role === role),
+    }))
+    .filter(({ references }) => references.length > 0);
+
+  const cellStyle = { ...CELL_STYLE, borderBottom: `1px solid ${theme.chrome.divider}` };
+  const linkButtonStyle = { ...LINK_BUTTON_STYLE, color: theme.chrome.link };
+  const controlStyle: React.CSSProperties = {
+    ...CONTROL_STYLE,
+    border: `1px solid ${theme.chrome.border}`,
+    background: theme.chrome.surface,
+    color: theme.chrome.text,
+  };
+
+  return (
+    <div
+      style={{
+        height: '100%',
+        overflowY: 'auto',
+        padding: '16px 24px',
+        background: theme.chrome.surface,
+        fontSize: '13px',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '12px' }}>
+        <input
+          type="search"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter names…"
+          aria-label="Filter connection names"
+          style={{ ...controlStyle, width: '240px' }}
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as ConnectionRole | 'all')}
+          aria-label="Role"
+          style={{ ...controlStyle, cursor: 'pointer' }}
+        >
+          <option value="all">All roles</option>
+          <option value="inflow">Inflows</option>
+          <option value="outflow">Outflows</option>
+          <option value="project">Projects</option>
+        </select>
+        <span style={{ color: theme.chrome.mutedText }}>
+          {rows.length} of {entries.length} names
+        </span>
+      </div>
+
+      <table style={{ width: '100%', borderCollapse: 'collapse', color: theme.chrome.text }}>
+        <thead>
+          <tr style={{ color: theme.chrome.mutedText }}>
+            <th style={cellStyle}>Name</th>
+            <th style={cellStyle}>Used by</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ entry, references }) => (
+            <tr key={entry.key}>
+              <td style={{ ...cellStyle, width: '35%' }}>
+                <div style={{ fontWeight: 600 }}>{entry.names[0]}</div>
+                {entry.names.length > 1 && (
+                  <div style={{ color: theme.chrome.mutedText }}>also written {entry.names.slice(1).join(', ')}</div>
+                )}
+                {entry.reservoirId !== undefined && (
+                  <button
+                    onClick={() => onSelectReservoir(entry.reservoirId!)}
+                    style={{ ...linkButtonStyle, fontSize: '12px' }}
+                  >
+                    Reservoir in this dataset
+                  </button>
+                )}
+              </td>
+              <td style={cellStyle}>
+                <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+                  {references.map((reference) => (
+                    <li key={`${reference.reservoirId}:${reference.role}:${reference.connectionId}`}>
+                      <button onClick={() => onSelectReservoir(reference.reservoirId)} style={linkButtonStyle}>
+                        {reference.reservoirName}
+                      </button>{' '}
+                      <span style={{ color: theme.chrome.mutedText }}>as {reference.role}</span>
+                    </li>
+                  ))}
+                </ul>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.length === 0 && (
+        <div style={{ padding: '12px', color: theme.chrome.mutedText }}>No matching names</div>
+      )}
+    </div>
+  );
+};
+
+export default WhereUsedView;
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { EMPTY_HISTORY, pushCommand, redoCommand, undoCommand, useCommandHistory } from './commandHistory';
+import type { Command } from './commandHistory';
+
+describe('commandHistory', () => {
+  const command = (label: string): Command => ({ label, undo: vi.fn(), redo: vi.fn() });
+
+  describe('pushCommand', () => {
+    it('should clear the redo list', () => {
+      const a = command('a');
+      const b = command('b');
+      const undone = undoCommand(pushCommand(EMPTY_HISTORY, a));
+
+      expect(pushCommand(undone, b)).toEqual({ past: [b], future: [] });
+    });
+
+    it('should drop the oldest commands beyond the limit', () => {
+      const commands = ['a', 'b', 'c'].map(command);
+      const history = commands.reduce((h, c) => pushCommand(h, c, 2), EMPTY_HISTORY);
+
+      expect(history.past.map((c) => c.label)).toEqual(['b', 'c']);
+    });
+  });
+
+  describe('undoCommand and redoCommand', () => {
+    it('should move commands between the undo and redo lists', () => {
+      const a = command('a');
+      const b = command('b');
+      const history = pushCommand(pushCommand(EMPTY_HISTORY, a), b);
+
+      const undone = undoCommand(undoCommand(history));
+      expect(undone).toEqual({ past: [], future: [b, a] });
+      expect(redoCommand(undone)).toEqual({ past: [a], future: [b] });
+    });
+
+    it('should leave an empty history unchanged', () => {
+      expect(undoCommand(EMPTY_HISTORY)).toBe(EMPTY_HISTORY);
+      expect(redoCommand(EMPTY_HISTORY)).toBe(EMPTY_HISTORY);
+    });
+  });
+
+  describe('useCommandHistory', () => {
+    it('should apply, undo and redo commands', () => {
+      const { result } = renderHook(() => useCommandHistory('101'));
+      const rename = command('rename reservoir');
+
+      act(() => result.current.execute(rename));
+      expect(rename.redo).toHaveBeenCalledTimes(1);
+      expect(result.current.undoLabel).toBe('rename reservoir');
+
+      act(() => result.current.undo());
+      expect(rename.undo).toHaveBeenCalledTimes(1);
+      expect(result.current.undoLabel).toBeNull();
+      expect(result.current.redoLabel).toBe('rename reservoir');
+
+      act(() => result.current.redo());
+      expect(rename.redo).toHaveBeenCalledTimes(2);
+    });
+
+    it('should record without applying', () => {
+      const { result } = renderHook(() => useCommandHistory('101'));
+      const move = command('move Stone Creek');
+
+      act(() => result.current.record(move));
+      expect(move.redo).not.toHaveBeenCalled();
+      expect(result.current.undoLabel).toBe('move Stone Creek');
+    });
+
+    it('should keep a separate history per scope', () => {
+      const { result, rerender } = renderHook(({ scope }) => useCommandHistory(scope), {
+        initialProps: { scope: '101' },
+      });
+
+      act(() => result.current.record(command('move Stone Creek')));
+      rerender({ scope: '105' });
+      expect(result.current.undoLabel).toBeNull();
+
+      rerender({ scope: '101' });
+      expect(result.current.undoLabel).toBe('move Stone Creek');
+    });
+
+    it('should record into another scope when given one', () => {
+      const { result, rerender } = renderHook(({ scope }) => useCommandHistory(scope), {
+        initialProps: { scope: '101' },
+      });
+
+      act(() => result.current.execute(command('create reservoir'), '110'));
+      expect(result.current.undoLabel).toBeNull();
+
+      rerender({ scope: '110' });
+      expect(result.current.undoLabel).toBe('create reservoir');
+    });
+  });
+});
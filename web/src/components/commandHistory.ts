@@ -0,0 +1,96 @@
+import { useCallback, useState } from 'react';
+
+/** An undoable action: `redo` (re)applies it, `undo` reverts it */
+export interface Command {
+  label: string; // e.g. "Move Stone Creek", shown on the undo/redo buttons
+  undo: () => void;
+  redo: () => void;
+}
+
+export interface CommandHistory {
+  past: Command[]; // Most recent last
+  future: Command[]; // Next to redo last
+}
+
+export const EMPTY_HISTORY: CommandHistory = { past: [], future: [] };
+
+/** Oldest commands are dropped beyond this many */
+export const HISTORY_LIMIT = 100;
+
+/**
+ * Record a command that has just been applied. Anything undone before it can no longer be redone.
+ */
+export function pushCommand(history: CommandHistory, command: Command, limit = HISTORY_LIMIT): CommandHistory {
+  return { past: [...history.past, command].slice(-limit), future: [] };
+}
+
+/**
+ * Move the latest command to the redo list. The caller runs its `undo`.
+ */
+export function undoCommand(history: CommandHistory): CommandHistory {
+  const command = history.past.at(-1);
+  if (!command) return history;
+  return { past: history.past.slice(0, -1), future: [...history.future, command] };
+}
+
+/**
+ * Move the next undone command back to the undo list. The caller runs its `redo`.
+ */
+export function redoCommand(history: CommandHistory): CommandHistory {
+  const command = history.future.at(-1);
+  if (!command) return history;
+  return { past: [...history.past, command], future: history.future.slice(0, -1) };
+}
+
+/**
+ * Undo/redo with a separate history per scope (e.g. per reservoir), kept while the page is open.
+ * Commands go to the current scope unless given another, e.g. the reservoir an edit created.
+ */
+export function useCommandHistory(scope: string) {
+  const [histories, setHistories] = useState<Record<string, CommandHistory>>({});
+  const history = histories[scope] ?? EMPTY_HISTORY;
+
+  const update = useCallback(
+    (change: (history: CommandHistory) => CommandHistory, target = scope) =>
+      setHistories((current) => ({ ...current, [target]: change(current[target] ?? EMPTY_HISTORY) })),
+    [scope]
+  );
+
+  /** Record a command whose effect has already happened, such as a finished drag */
+  const record = useCallback(
+    (command: Command, target?: string) => update((h) => pushCommand(h, command), target),
+    [update]
+  );
+
+  /** Apply a command and record it */
+  const execute = useCallback(
+    (command: Command, target?: string) => {
+      command.redo();
+      record(command, target);
+    },
+    [record]
+  );
+
+  const undo = () => {
+    const command = history.past.at(-1);
+    if (!command) return;
+    command.undo();
+    update(undoCommand);
+  };
+
+  const redo = () => {
+    const command = history.future.at(-1);
+    if (!command) return;
+    command.redo();
+    update(redoCommand);
+  };
+
+  return {
+    execute,
+    record,
+    undo,
+    redo,
+    undoLabel: history.past.at(-1)?.label ?? null, // null when there is nothing to undo
+    redoLabel: history.future.at(-1)?.label ?? null,
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { exportFileName, serializeSvg } from './graphExport';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+function buildSvg(): SVGSVGElement {
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('width', '400');
+  svg.setAttribute('height', '300');
+  svg.setAttribute('viewBox', '-100 -50 800 600');
+  svg.style.background = '#F5F5F0';
+  svg.innerHTML = `
+    <defs><marker id="arrowhead-inflow"><path d="M 0 0 L 10 5 L 0 10 z" fill="#D67A97"></path></marker></defs>
+    <g class="main-group" transform="translate(10,20) scale(0.8)">
+      <path class="link" d="M0,0L50,50" marker-end="url(#arrowhead-inflow)"></path>
+      <g class="node" transform="translate(120,40)" style="cursor: grab"><circle r="12"></circle></g>
+    </g>`;
+  document.body.appendChild(svg);
+  return svg;
+}
+
+describe('graphExport', () => {
+  describe('exportFileName', () => {
+    it('should name the file after the reservoir', () => {
+      expect(exportFileName('Emerald Lake (Main)', 'svg')).toBe('emerald-lake-main.svg');
+    });
+  });
+
+  describe('serializeSvg', () => {
+    it('should produce a standalone SVG document sized to the view', () => {
+      const { text, width, height } = serializeSvg(buildSvg());
+
+      expect(text.startsWith('<?xml')).toBe(true);
+      expect(text).toContain(`xmlns="${SVG_NS}"`);
+      expect([width, height]).toEqual([400, 300]);
+      expect(text).toContain('viewBox="-100 -50 800 600"');
+    });
+
+    it('should keep markers, the zoom transform and dragged node positions', () => {
+      const { text } = serializeSvg(buildSvg());
+
+      expect(text).toContain('<marker id="arrowhead-inflow"');
+      expect(text).toContain('marker-end="url(#arrowhead-inflow)"');
+      expect(text).toContain('transform="translate(10,20) scale(0.8)"');
+      expect(text).toContain('transform="translate(120,40)"');
+    });
+
+    it('should paint the background and drop interactive styles', () => {
+      const svg = buildSvg();
+      const { text } = serializeSvg(svg);
+      const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+
+      const background = doc.documentElement.querySelector(':scope > rect');
+      expect(background?.getAttribute('fill')).toBe('rgb(245, 245, 240)');
+      expect(background?.getAttribute('width')).toBe('800');
+      expect(text).not.toContain('cursor');
+      // The live graph is left untouched
+      expect(svg.querySelector('.node')?.getAttribute('style')).toContain('cursor');
+    });
+
+    it('should paint the letterboxing around a viewBox of another aspect ratio', () => {
+      const svg = buildSvg();
+      svg.setAttribute('height', '400');
+      const doc = new DOMParser().parseFromString(serializeSvg(svg).text, 'image/svg+xml');
+
+      // 800 x 600 shown at 400 x 400 is scaled by half, leaving 100 units above and below
+      const background = doc.documentElement.querySelector(':scope > rect');
+      expect(['x', 'y', 'width', 'height'].map((name) => background?.getAttribute(name))).toEqual([
+        '-100',
+        '-150',
+        '800',
+        '800',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { slugifyConnectionName } from '@data/reservoirData';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/** Presentation properties copied from computed styles so the export renders without the page's CSS */
+const INLINED_STYLE_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-dasharray',
+  'stroke-opacity',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'text-anchor',
+  'dominant-baseline',
+] as const;
+
+/** Interactive-only styles that mean nothing in a static file */
+const STRIPPED_STYLE_PROPERTIES = ['cursor', 'pointer-events'] as const;
+
+export const PNG_SCALES = [1, 2, 4] as const;
+
+/**
+ * File name for an export, e.g. ("Emerald Lake", 'svg') -> "emerald-lake.svg"
+ */
+export function exportFileName(name: string, extension: string): string {
+  return `${slugifyConnectionName(name)}.${extension}`;
+}
+
+/**
+ * Copy computed presentation styles from a rendered element tree onto its clone
+ */
+function inlineStyles(source: Element, target: Element) {
+  const computed = window.getComputedStyle(source);
+  const style = (target as SVGElement).style;
+  INLINED_STYLE_PROPERTIES.forEach((property) => {
+    const value = computed.getPropertyValue(property);
+    if (value && !style.getPropertyValue(property)) {
+      style.setProperty(property, value);
+    }
+  });
+  STRIPPED_STYLE_PROPERTIES.forEach((property) => style.removeProperty(property));
+  if (!style.length) target.removeAttribute('style');
+
+  Array.from(source.children).forEach((child, i) => inlineStyles(child, target.children[i]));
+}
+
+/**
+ * The area, in viewBox units, that an SVG of the given size shows. The graph uses
+ * "xMidYMid meet", so a viewBox of another aspect ratio is centred with extra room
+ * on two sides.
+ */
+function visibleArea(viewBox: number[], width: number, height: number) {
+  const [x, y, viewWidth, viewHeight] = viewBox;
+  const scale = Math.min(width / viewWidth, height / viewHeight);
+  return {
+    x: x - (width / scale - viewWidth) / 2,
+    y: y - (height / scale - viewHeight) / 2,
+    width: width / scale,
+    height: height / scale,
+  };
+}
+
+/**
+ * Serialize the graph exactly as currently shown (zoom, pan and dragged positions)
+ * into a standalone SVG document with inlined styles and markers
+ */
+export function serializeSvg(svg: SVGSVGElement): { text: string; width: number; height: number } {
+  const width = svg.clientWidth || Number(svg.getAttribute('width')) || 800;
+  const height = svg.clientHeight || Number(svg.getAttribute('height')) || 600;
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  inlineStyles(svg, clone);
+
+  // XMLSerializer adds the SVG namespace declaration itself
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+
+  // The on-screen background comes from the element's CSS; paint it explicitly.
+  // The rect is placed before the zoomed group so it spans the viewport, not the content,
+  // including any letterboxing around the viewBox.
+  const background = window.getComputedStyle(svg).backgroundColor || svg.style.backgroundColor;
+  if (background && background !== 'transparent' && background !== 'rgba(0, 0, 0, 0)') {
+    const viewBox = svg.getAttribute('viewBox')?.split(/[\s,]+/).map(Number);
+    const area = viewBox?.length === 4 && viewBox.every(Number.isFinite) ? visibleArea(viewBox, width, height) : null;
+    const rect = document.createElementNS(SVG_NS, 'rect');
+    rect.setAttribute('x', String(area?.x ?? 0));
+    rect.setAttribute('y', String(area?.y ?? 0));
+    rect.setAttribute('width', area ? String(area.width) : '100%');
+    rect.setAttribute('height', area ? String(area.height) : '100%');
+    rect.setAttribute('fill', background);
+    clone.style.removeProperty('background');
+    clone.style.removeProperty('background-color');
+    if (!clone.style.length) clone.removeAttribute('style');
+    const defs = clone.querySelector(':scope > defs');
+    clone.insertBefore(rect, defs ? defs.nextSibling : clone.firstChild);
+  }
+
+  const text = `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+  return { text, width, height };
+}
+
+/**
+ * Rasterize a serialized SVG to PNG at the given scale (1 = screen resolution)
+ */
+export function renderPng(svgText: string, width: number, height: number, scale: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas rendering is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The graph could not be rendered as an image'));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Save a blob through the browser's download mechanism
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
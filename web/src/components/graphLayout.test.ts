@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LAYOUT,
+  computeLayout,
+  findLabelCollisions,
+  labelBox,
+  labelLineOffsets,
+  nodeBox,
+  routeLink,
+} from './graphLayout';
+import { getAllReservoirs } from '@data/reservoirData';
+import type { IGraphData } from '@data/reservoirData';
+import { buildReservoirNetwork } from '@data/reservoirNetwork';
+
+describe('graphLayout', () => {
+  const graph: IGraphData = {
+    nodes: [
+      { id: 'main', label: 'Main Reservoir', type: 'main_reservoir' },
+      { id: 'inflow1', label: 'Inflow 1', type: 'inflow' },
+      { id: 'inflow2', label: 'Inflow 2', type: 'inflow' },
+      { id: 'outflow1', label: 'Outflow 1', type: 'outflow' },
+      { id: 'project1', label: 'Project 1', type: 'project' },
+    ],
+    links: [
+      { source: 'inflow1', target: 'main' },
+      { source: 'inflow2', target: 'main' },
+      { source: 'main', target: 'outflow1' },
+      { source: 'main', target: 'project1' },
+    ],
+  };
+
+  const upstream: IGraphData = {
+    nodes: [
+      { id: 'reservoir_1', label: 'Upper', type: 'main_reservoir', generation: -1 },
+      { id: 'reservoir_2', label: 'Lower', type: 'main_reservoir', generation: 0 },
+    ],
+    links: [{ source: 'reservoir_1', target: 'reservoir_2' }],
+  };
+
+  describe('computeLayout', () => {
+    it('should not modify the input nodes', () => {
+      computeLayout(graph, 'horizontal');
+
+      expect(graph.nodes[0]).toEqual({ id: 'main', label: 'Main Reservoir', type: 'main_reservoir' });
+    });
+
+    it('should space stacked nodes further apart for multi-line labels', () => {
+      const single = computeLayout(graph, 'horizontal').positions;
+      const wrapped = computeLayout(graph, 'horizontal', { labelLines: new Map([['inflow1', 3]]) }).positions;
+
+      const gap = (positions: typeof single) => positions.get('inflow2')!.y - positions.get('inflow1')!.y;
+      expect(gap(single)).toBe(LAYOUT.NODE_SPACING);
+      expect(gap(wrapped)).toBeGreaterThan(LAYOUT.NODE_SPACING);
+    });
+
+    it('should push outflows and projects apart when their labels need room', () => {
+      const { positions } = computeLayout(graph, 'horizontal', {
+        labelLines: new Map([
+          ['outflow1', 3],
+          ['project1', 3],
+        ]),
+      });
+      const split = positions.get('project1')!.y - positions.get('outflow1')!.y;
+
+      expect(split).toBe(3 * LAYOUT.LABEL_LINE_HEIGHT + LAYOUT.LABEL_GAP);
+    });
+
+    it('should keep top-down labels clear of each other in dense reservoirs', () => {
+      // Rough measurements: 7px per character, wrapped at word breaks to the label width
+      const wrap = (label: string) =>
+        label.split(' ').reduce<string[]>((lines, word) => {
+          const last = lines[lines.length - 1];
+          if (last !== undefined && (last.length + 1 + word.length) * 7 <= LAYOUT.LABEL_MAX_WIDTH) {
+            lines[lines.length - 1] = `${last} ${word}`;
+          } else {
+            lines.push(word);
+          }
+          return lines;
+        }, []);
+      const widthOf = (lines: string[]) => Math.max(...lines.map((line) => line.length * 7));
+
+      [107, 109].forEach((id) => {
+        const data = buildReservoirNetwork(getAllReservoirs(), id, 1);
+        const labels = new Map(
+          data.nodes.filter((n) => n.type !== 'main_reservoir').map((n) => [n.id, wrap(n.label)])
+        );
+        const { positions } = computeLayout(data, 'top-down', {
+          labelLines: new Map([...labels].map(([nodeId, lines]) => [nodeId, lines.length])),
+          labelWidths: new Map([...labels].map(([nodeId, lines]) => [nodeId, widthOf(lines)])),
+        });
+        const labelBoxes = [...labels].map(([nodeId, lines]) => {
+          const { x, y, labelSide } = positions.get(nodeId)!;
+          return labelBox(nodeId, x, y, labelSide, widthOf(lines), lines.length);
+        });
+        const shapes = data.nodes.map((n) => nodeBox(n.id, positions.get(n.id)!.x, positions.get(n.id)!.y, n.type));
+
+        expect(findLabelCollisions(labelBoxes, shapes)).toEqual(new Set());
+      });
+    });
+
+    it('should place every node', () => {
+      (['horizontal', 'top-down', 'radial'] as const).forEach((strategy) => {
+        expect(computeLayout(graph, strategy).positions.size).toBe(graph.nodes.length);
+      });
+    });
+
+    it('should put inflows on the left and outflows above projects on the right in horizontal layout', () => {
+      const { positions } = computeLayout(graph, 'horizontal');
+
+      expect(positions.get('main')).toMatchObject({ x: 0, y: 0 });
+      expect(positions.get('inflow1')).toEqual({ x: -LAYOUT.HORIZONTAL_SPACING, y: -20, labelSide: 'left' });
+      expect(positions.get('inflow2')).toEqual({ x: -LAYOUT.HORIZONTAL_SPACING, y: 20, labelSide: 'left' });
+      expect(positions.get('outflow1')).toMatchObject({ x: LAYOUT.HORIZONTAL_SPACING, labelSide: 'right' });
+      expect(positions.get('outflow1')!.y).toBeLessThan(positions.get('project1')!.y);
+    });
+
+    it('should place other node types on the side their type declares', () => {
+      const typed: IGraphData = {
+        nodes: [
+          { id: 'main', label: 'Main Reservoir', type: 'main_reservoir' },
+          { id: 'gauge', label: 'Gauge', type: 'gauge' },
+          { id: 'dam', label: 'Dam', type: 'dam' },
+          { id: 'pumps', label: 'Pumps', type: 'pumping_station' },
+        ],
+        links: [
+          { source: 'gauge', target: 'main' },
+          { source: 'main', target: 'dam' },
+          { source: 'main', target: 'pumps' },
+        ],
+      };
+      const { positions } = computeLayout(typed, 'horizontal');
+
+      expect(positions.get('gauge')).toMatchObject({ x: -LAYOUT.HORIZONTAL_SPACING, labelSide: 'left' });
+      expect(positions.get('dam')).toMatchObject({ x: LAYOUT.HORIZONTAL_SPACING, labelSide: 'right' });
+      expect(positions.get('dam')!.y).toBeLessThan(positions.get('pumps')!.y);
+    });
+
+    it('should put inflows above and outflows and projects below in top-down layout', () => {
+      const { positions } = computeLayout(graph, 'top-down');
+
+      expect(positions.get('inflow1')).toMatchObject({ y: -LAYOUT.VERTICAL_SPACING, labelSide: 'above' });
+      expect(positions.get('inflow1')!.x).toBeLessThan(positions.get('inflow2')!.x);
+      expect(positions.get('outflow1')).toMatchObject({ y: LAYOUT.VERTICAL_SPACING, labelSide: 'below' });
+      expect(positions.get('outflow1')!.x).toBeLessThan(positions.get('project1')!.x);
+    });
+
+    it('should place connections on a circle around the reservoir in radial layout', () => {
+      const { positions } = computeLayout(graph, 'radial');
+
+      ['inflow1', 'inflow2', 'outflow1', 'project1'].forEach((id) => {
+        const { x, y } = positions.get(id)!;
+        expect(Math.hypot(x, y)).toBeCloseTo(LAYOUT.RADIAL_RADIUS);
+      });
+      // Inflows face left
+      expect(positions.get('inflow1')!.x).toBeLessThan(0);
+      expect(positions.get('inflow2')!.x).toBeLessThan(0);
+    });
+
+    it('should put upstream generations before the root in every strategy', () => {
+      const horizontal = computeLayout(upstream, 'horizontal').positions;
+      expect(horizontal.get('reservoir_1')!.x).toBe(-LAYOUT.GENERATION_SPACING);
+
+      const topDown = computeLayout(upstream, 'top-down').positions;
+      expect(topDown.get('reservoir_1')!.y).toBe(-LAYOUT.TOP_DOWN_GENERATION_SPACING);
+
+      const radial = computeLayout(upstream, 'radial').positions;
+      expect(radial.get('reservoir_2')).toMatchObject({ x: 0, y: 0 });
+      expect(radial.get('reservoir_1')!.x).toBeCloseTo(-LAYOUT.GENERATION_SPACING);
+    });
+
+    it('should keep every node inside the bounds', () => {
+      (['horizontal', 'top-down', 'radial'] as const).forEach((strategy) => {
+        const { positions, bounds } = computeLayout(graph, strategy);
+        positions.forEach(({ x, y }) => {
+          expect(x).toBeGreaterThan(bounds.minX);
+          expect(x).toBeLessThan(bounds.maxX);
+          expect(y).toBeGreaterThan(bounds.minY);
+          expect(y).toBeLessThan(bounds.maxY);
+        });
+      });
+    });
+  });
+
+  describe('routeLink', () => {
+    const main = { type: 'main_reservoir' as const, x: 0, y: 0 };
+
+    it('should route horizontal links from the right edge of the reservoir', () => {
+      const route = routeLink(main, { type: 'outflow', x: 220, y: -20 }, 'horizontal');
+
+      expect(route.path).toBe('M 90,-20 L 149,-20 L 149,-20 L 208,-20');
+    });
+
+    it('should route top-down links from the bottom of the reservoir', () => {
+      const route = routeLink(main, { type: 'project', x: 45, y: 140 }, 'top-down');
+
+      expect(route.path).toBe('M 45,40 L 45,84 L 45,84 L 45,128');
+    });
+
+    it('should draw straight radial links between node edges', () => {
+      const route = routeLink({ type: 'inflow', x: -180, y: 0 }, main, 'radial');
+
+      expect(route.path).toBe('M -180,0 L -90,0');
+      expect(route.label).toEqual({ x: -135, y: -6 });
+    });
+  });
+
+  describe('labels', () => {
+    it('should stack label lines by side', () => {
+      expect(labelLineOffsets('right', 1)).toEqual([5]);
+      expect(labelLineOffsets('right', 3)).toEqual([-10, 5, 20]);
+      expect(labelLineOffsets('above', 2)).toEqual([-35, -20]);
+      expect(labelLineOffsets('below', 2)).toEqual([30, 45]);
+    });
+
+    it('should measure label boxes from their anchor', () => {
+      expect(labelBox('a', 100, 0, 'left', 50, 1)).toEqual({ id: 'a', x: 30, y: -6, width: 50, height: 15 });
+      expect(labelBox('a', 100, 0, 'right', 50, 1).x).toBe(120);
+      expect(labelBox('a', 100, 0, 'below', 50, 1).x).toBe(75);
+    });
+
+    it('should report labels that overlap each other or another node', () => {
+      const labels = [
+        labelBox('a', 0, 0, 'right', 80, 1),
+        labelBox('b', 0, 10, 'right', 80, 1),
+        labelBox('c', 0, 200, 'right', 80, 1),
+        labelBox('d', 0, 400, 'right', 80, 1),
+      ];
+      const shapes = [nodeBox('c', 0, 200, 'inflow'), nodeBox('main', 60, 400, 'main_reservoir')];
+
+      expect(findLabelCollisions(labels, shapes)).toEqual(new Set(['a', 'b', 'd']));
+    });
+  });
+});
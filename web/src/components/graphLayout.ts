@@ -0,0 +1,613 @@
+import * as d3 from 'd3';
+import type { IGraphData, ILink, INode } from '@data/reservoirData';
+import { getNodeType } from '@data/nodeTypes';
+import type { LayoutSide } from '@data/nodeTypes';
+
+// Layout constants
+export const LAYOUT = {
+  NODE_SPACING: 40,
+  HORIZONTAL_SPACING: 220,
+  PADDING: 100,
+  MAIN_RECT_WIDTH: 180,
+  MAIN_RECT_HEIGHT: 80,
+  MAIN_RECT_PADDING: 10,
+  MAIN_RECT_RADIUS: 12,
+  NODE_RADIUS: 12,
+  LEGEND_WIDTH: 63,
+  LEGEND_ITEM_HEIGHT: 14,
+  LEGEND_PADDING: 16,
+  LEGEND_OFFSET: 40,
+  LEGEND_CHAR_WIDTH: 4, // Rough width of a character of the 7px legend text
+  GENERATION_SPACING: 760,
+  CLUSTER_GAP: 60,
+  MIN_FLOW_LINK_WIDTH: 2,
+  MAX_FLOW_LINK_WIDTH: 14,
+  // Top-down: connection rows above and below the reservoir
+  VERTICAL_SPACING: 140,
+  ROW_NODE_SPACING: 60, // Closest two nodes in a row get; wide labels push them further apart
+  TOP_DOWN_GENERATION_SPACING: 420,
+  // Radial: connections on a circle around each reservoir, generations on rings
+  RADIAL_RADIUS: 180,
+  RADIAL_NODE_ARC: 48,
+  // Room for circle labels, which extend sideways past the node
+  LABEL_MARGIN: 150,
+  // Circle labels wrap to this width and line count before being truncated
+  LABEL_MAX_WIDTH: 120,
+  LABEL_MAX_LINES: 3,
+  LABEL_LINE_HEIGHT: 15,
+  LABEL_GAP: 12,
+} as const;
+
+export type LayoutStrategy = 'horizontal' | 'top-down' | 'radial';
+
+export const LAYOUT_STRATEGIES: { value: LayoutStrategy; label: string }[] = [
+  { value: 'horizontal', label: 'Horizontal' },
+  { value: 'top-down', label: 'Top-down' },
+  { value: 'radial', label: 'Radial' },
+];
+
+/** Where a connection node's label sits relative to its circle */
+export type LabelSide = 'left' | 'right' | 'above' | 'below';
+
+// Circle label placement for each side: offset of the first line's baseline from the node
+export const LABEL_OFFSETS: Record<LabelSide, { textX: number; textY: number; textAnchor: 'start' | 'middle' | 'end' }> = {
+  left: { textX: -20, textY: 5, textAnchor: 'end' },
+  right: { textX: 20, textY: 5, textAnchor: 'start' },
+  above: { textX: 0, textY: -20, textAnchor: 'middle' },
+  below: { textX: 0, textY: 30, textAnchor: 'middle' },
+};
+
+export interface NodePlacement {
+  x: number;
+  y: number;
+  labelSide: LabelSide;
+}
+
+export interface LayoutOptions {
+  labelLines?: ReadonlyMap<string, number>; // Lines in each node's wrapped label; 1 if absent
+  labelWidths?: ReadonlyMap<string, number>; // Width of each node's widest label line; LABEL_MAX_WIDTH if absent
+}
+
+export interface GraphLayout {
+  strategy: LayoutStrategy;
+  positions: Map<string, NodePlacement>;
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+}
+
+interface NodeCluster {
+  generation: number;
+  main?: INode;
+  inflows: INode[];
+  outflows: INode[];
+  projects: INode[];
+}
+
+interface ClusterExtent {
+  min: number;
+  max: number;
+}
+
+const sideOf = (node: { type: INode['type'] }): LayoutSide => getNodeType(node.type).side;
+
+/**
+ * Group nodes into one cluster per main reservoir node, on the side their type declares.
+ * Nodes not attached to any reservoir fall into a cluster of their own.
+ */
+function groupClusters(nodes: INode[], links: ILink[]): NodeCluster[] {
+  const clusters: NodeCluster[] = [];
+  const claimed = new Set<string>();
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+
+  nodes
+    .filter((n) => n.type === 'main_reservoir')
+    .forEach((main) => {
+      const cluster: NodeCluster = {
+        generation: main.generation ?? 0,
+        main,
+        inflows: [],
+        outflows: [],
+        projects: [],
+      };
+      claimed.add(main.id);
+      links.forEach((link) => {
+        const other =
+          link.target === main.id ? byId.get(link.source) : link.source === main.id ? byId.get(link.target) : undefined;
+        if (!other || claimed.has(other.id)) return;
+        const side = sideOf(other);
+        if (side === 'inflow') cluster.inflows.push(other);
+        else if (side === 'outflow') cluster.outflows.push(other);
+        else if (side === 'project') cluster.projects.push(other);
+        else return;
+        claimed.add(other.id);
+      });
+      clusters.push(cluster);
+    });
+
+  const orphans = nodes.filter((n) => !claimed.has(n.id));
+  if (orphans.length > 0) {
+    clusters.push({
+      generation: 0,
+      inflows: orphans.filter((n) => sideOf(n) === 'inflow'),
+      outflows: orphans.filter((n) => sideOf(n) === 'outflow'),
+      projects: orphans.filter((n) => sideOf(n) === 'project'),
+    });
+  }
+
+  return clusters;
+}
+
+type Place = (node: INode, x: number, y: number, labelSide: LabelSide) => void;
+
+interface LayoutContext {
+  place: Place;
+  slotOf: (node: INode) => number; // Space a node needs along its stack, label included
+  rowSlotOf: (node: INode) => number; // Space a node needs across a top-down row, label included
+}
+
+/**
+ * Offsets of stacked nodes from the first one, spaced so neighbouring labels don't touch
+ */
+function stackOffsets(nodes: INode[], slotOf: (node: INode) => number) {
+  let length = 0;
+  const offsets = nodes.map((node, i) => {
+    if (i > 0) length += (slotOf(nodes[i - 1]) + slotOf(node)) / 2;
+    return length;
+  });
+  return { offsets, length };
+}
+
+/**
+ * Position a cluster in the three-column layout around (centerX, centerY):
+ * inflows on the left, outflows and projects stacked on the right.
+ * Returns the vertical extent of the cluster.
+ */
+function layoutClusterHorizontal(
+  cluster: NodeCluster,
+  centerX: number,
+  centerY: number,
+  { place, slotOf }: LayoutContext
+): ClusterExtent {
+  const { main, inflows, outflows, projects } = cluster;
+  const leftX = centerX - LAYOUT.HORIZONTAL_SPACING;
+  const rightX = centerX + LAYOUT.HORIZONTAL_SPACING;
+  const ys: number[] = [];
+  const placeRight = (node: INode, y: number) => {
+    place(node, rightX, y, 'right');
+    ys.push(y);
+  };
+
+  // Position main reservoir (center)
+  if (main) place(main, centerX, centerY, 'right');
+
+  // Position inflows (left side, vertically centered)
+  const inflowStack = stackOffsets(inflows, slotOf);
+  const inflowStartY = centerY - inflowStack.length / 2;
+  inflows.forEach((node, i) => {
+    const y = inflowStartY + inflowStack.offsets[i];
+    place(node, leftX, y, 'left');
+    ys.push(y);
+  });
+
+  // Position outflows and projects on the right side
+  if (outflows.length > 0 && projects.length > 0) {
+    // Both exist: outflows in top-half, projects in bottom-half
+    const outflowStack = stackOffsets(outflows, slotOf);
+    const projectStack = stackOffsets(projects, slotOf);
+    // Push the halves apart when the labels either side of the split need more room
+    const needed = (slotOf(outflows[outflows.length - 1]) + slotOf(projects[0])) / 2;
+    const split = Math.max(LAYOUT.MAIN_RECT_HEIGHT / 4, needed / 2);
+    const outflowStartY = centerY - split - outflowStack.length;
+    const projectStartY = centerY + split;
+
+    outflows.forEach((node, i) => placeRight(node, outflowStartY + outflowStack.offsets[i]));
+    projects.forEach((node, i) => placeRight(node, projectStartY + projectStack.offsets[i]));
+  } else {
+    const rightNodes = outflows.length > 0 ? outflows : projects;
+    const rightStack = stackOffsets(rightNodes, slotOf);
+    const rightStartY = centerY - rightStack.length / 2;
+    rightNodes.forEach((node, i) => placeRight(node, rightStartY + rightStack.offsets[i]));
+  }
+
+  return {
+    min: Math.min(centerY - LAYOUT.MAIN_RECT_HEIGHT / 2, ...ys),
+    max: Math.max(centerY + LAYOUT.MAIN_RECT_HEIGHT / 2, ...ys),
+  };
+}
+
+/**
+ * Position a cluster top-down around (centerX, centerY): inflows in a row above,
+ * outflows and projects in a row below. Returns the horizontal extent of the cluster.
+ */
+function layoutClusterTopDown(
+  cluster: NodeCluster,
+  centerX: number,
+  centerY: number,
+  { place, rowSlotOf }: LayoutContext
+): ClusterExtent {
+  const { main, inflows, outflows, projects } = cluster;
+  const topY = centerY - LAYOUT.VERTICAL_SPACING;
+  const bottomY = centerY + LAYOUT.VERTICAL_SPACING;
+  // Each row node's left and right edges, label included
+  const lefts: number[] = [];
+  const rights: number[] = [];
+  const placeInRow = (node: INode, x: number, y: number, labelSide: LabelSide) => {
+    place(node, x, y, labelSide);
+    lefts.push(x - rowSlotOf(node) / 2);
+    rights.push(x + rowSlotOf(node) / 2);
+  };
+  const placeBelow = (node: INode, x: number) => placeInRow(node, x, bottomY, 'below');
+
+  if (main) place(main, centerX, centerY, 'below');
+
+  // Position inflows (row above, horizontally centered)
+  const inflowRow = stackOffsets(inflows, rowSlotOf);
+  const inflowStartX = centerX - inflowRow.length / 2;
+  inflows.forEach((node, i) => placeInRow(node, inflowStartX + inflowRow.offsets[i], topY, 'above'));
+
+  if (outflows.length > 0 && projects.length > 0) {
+    // Both exist: outflows to the left, projects to the right
+    const outflowRow = stackOffsets(outflows, rowSlotOf);
+    const projectRow = stackOffsets(projects, rowSlotOf);
+    // Push the halves apart when the labels either side of the split need more room
+    const needed = (rowSlotOf(outflows[outflows.length - 1]) + rowSlotOf(projects[0])) / 2;
+    const split = Math.max(LAYOUT.MAIN_RECT_WIDTH / 4, needed / 2);
+    const outflowStartX = centerX - split - outflowRow.length;
+    const projectStartX = centerX + split;
+
+    outflows.forEach((node, i) => placeBelow(node, outflowStartX + outflowRow.offsets[i]));
+    projects.forEach((node, i) => placeBelow(node, projectStartX + projectRow.offsets[i]));
+  } else {
+    const bottomNodes = outflows.length > 0 ? outflows : projects;
+    const bottomRow = stackOffsets(bottomNodes, rowSlotOf);
+    const bottomStartX = centerX - bottomRow.length / 2;
+    bottomNodes.forEach((node, i) => placeBelow(node, bottomStartX + bottomRow.offsets[i]));
+  }
+
+  return {
+    min: Math.min(centerX - LAYOUT.MAIN_RECT_WIDTH / 2, ...lefts),
+    max: Math.max(centerX + LAYOUT.MAIN_RECT_WIDTH / 2, ...rights),
+  };
+}
+
+/**
+ * Label side for a node at the given angle around its reservoir, facing outwards
+ */
+function outwardLabelSide(angle: number): LabelSide {
+  if (Math.abs(Math.cos(angle)) < 0.3) return Math.sin(angle) < 0 ? 'above' : 'below';
+  return Math.cos(angle) < 0 ? 'left' : 'right';
+}
+
+/**
+ * Position a cluster's connections on a circle around (centerX, centerY).
+ * Inflows are centered on the left; outflows then projects follow clockwise.
+ */
+function layoutClusterRadial(
+  cluster: NodeCluster,
+  centerX: number,
+  centerY: number,
+  { place, slotOf }: LayoutContext
+) {
+  const { main, inflows, outflows, projects } = cluster;
+  const connections = [...inflows, ...outflows, ...projects];
+  if (main) place(main, centerX, centerY, 'below');
+  if (connections.length === 0) return;
+
+  // Grow the circle until every node and its label has room around it
+  const circumference = connections.reduce(
+    (sum, node) => sum + Math.max(LAYOUT.RADIAL_NODE_ARC, slotOf(node)),
+    0
+  );
+  const radius = Math.max(LAYOUT.RADIAL_RADIUS, circumference / (2 * Math.PI));
+  const step = (2 * Math.PI) / connections.length;
+  const startAngle = Math.PI - ((inflows.length - 1) / 2) * step;
+  connections.forEach((node, i) => {
+    const angle = startAngle + i * step;
+    place(node, centerX + radius * Math.cos(angle), centerY + radius * Math.sin(angle), outwardLabelSide(angle));
+  });
+}
+
+/**
+ * Arrange clusters in one band per generation (columns for horizontal, rows for top-down),
+ * stacking clusters of the same generation along the band
+ */
+function layoutBands(
+  clusters: NodeCluster[],
+  layoutCluster: (
+    cluster: NodeCluster,
+    bandOffset: number,
+    offsetInBand: number,
+    context: LayoutContext
+  ) => ClusterExtent,
+  bandSpacing: number,
+  context: LayoutContext
+) {
+  const bands = d3.group(clusters, (c) => c.generation);
+  const measuring: LayoutContext = { ...context, place: () => undefined };
+
+  bands.forEach((bandClusters, generation) => {
+    // Lay out each cluster at the origin first to measure it
+    const extents = bandClusters.map((cluster) => layoutCluster(cluster, 0, 0, measuring));
+    const bandLength =
+      extents.reduce((sum, e) => sum + e.max - e.min, 0) + (bandClusters.length - 1) * LAYOUT.CLUSTER_GAP;
+
+    let start = -bandLength / 2;
+    bandClusters.forEach((cluster, i) => {
+      const center = bandClusters.length === 1 ? 0 : start - extents[i].min;
+      layoutCluster(cluster, generation * bandSpacing, center, context);
+      start += extents[i].max - extents[i].min + LAYOUT.CLUSTER_GAP;
+    });
+  });
+}
+
+/**
+ * Place each generation on a ring around the root: upstream reservoirs on the
+ * left half, downstream on the right
+ */
+function layoutRings(clusters: NodeCluster[], context: LayoutContext) {
+  const rings = d3.group(
+    clusters,
+    (c) => Math.abs(c.generation),
+    (c) => Math.sign(c.generation)
+  );
+
+  rings.forEach((sides, ring) => {
+    sides.forEach((sideClusters, side) => {
+      sideClusters.forEach((cluster, i) => {
+        if (ring === 0) {
+          // The root sits in the middle; anything else unattached goes below it
+          layoutClusterRadial(cluster, 0, i * LAYOUT.GENERATION_SPACING, context);
+          return;
+        }
+        // Spread over most of the half circle, leaving the top and bottom clear
+        const center = side < 0 ? Math.PI : 0;
+        const angle = center + ((i + 0.5) / sideClusters.length - 0.5) * Math.PI * 0.8;
+        const radius = ring * LAYOUT.GENERATION_SPACING;
+        layoutClusterRadial(cluster, radius * Math.cos(angle), radius * Math.sin(angle), context);
+      });
+    });
+  });
+}
+
+/**
+ * Compute node positions for a graph with the given strategy. Pure: the input
+ * nodes are not modified. Nodes with multi-line labels get extra room in their stack.
+ */
+export function computeLayout(
+  data: IGraphData,
+  strategy: LayoutStrategy,
+  { labelLines, labelWidths }: LayoutOptions = {}
+): GraphLayout {
+  const positions = new Map<string, NodePlacement>();
+  const context: LayoutContext = {
+    place: (node, x, y, labelSide) => positions.set(node.id, { x, y, labelSide }),
+    slotOf: (node) =>
+      Math.max(
+        LAYOUT.NODE_SPACING,
+        (labelLines?.get(node.id) ?? 1) * LAYOUT.LABEL_LINE_HEIGHT + LAYOUT.LABEL_GAP
+      ),
+    rowSlotOf: (node) =>
+      Math.max(LAYOUT.ROW_NODE_SPACING, (labelWidths?.get(node.id) ?? LAYOUT.LABEL_MAX_WIDTH) + LAYOUT.LABEL_GAP),
+  };
+  const clusters = groupClusters(data.nodes, data.links);
+
+  if (strategy === 'horizontal') {
+    layoutBands(clusters, layoutClusterHorizontal, LAYOUT.GENERATION_SPACING, context);
+  } else if (strategy === 'top-down') {
+    // Bands run along y; swap the coordinates the cluster layout works in
+    layoutBands(
+      clusters,
+      (cluster, bandOffset, offsetInBand, c) => layoutClusterTopDown(cluster, offsetInBand, bandOffset, c),
+      LAYOUT.TOP_DOWN_GENERATION_SPACING,
+      context
+    );
+  } else {
+    layoutRings(clusters, context);
+  }
+
+  const placements = [...positions.values()];
+  const xs = placements.map((p) => p.x);
+  const ys = placements.map((p) => p.y);
+
+  if (strategy === 'horizontal') {
+    // Columns are a fixed width apart, so the bounds follow the generations
+    const generations = clusters.map((c) => c.generation);
+    return {
+      strategy,
+      positions,
+      bounds: {
+        minX: Math.min(0, ...generations) * LAYOUT.GENERATION_SPACING - LAYOUT.HORIZONTAL_SPACING - LAYOUT.PADDING,
+        maxX: Math.max(0, ...generations) * LAYOUT.GENERATION_SPACING + LAYOUT.HORIZONTAL_SPACING + 200,
+        minY: Math.min(0, ...ys) - LAYOUT.PADDING,
+        maxY: Math.max(0, ...ys) + LAYOUT.PADDING,
+      },
+    };
+  }
+
+  const marginX = LAYOUT.MAIN_RECT_WIDTH / 2 + LAYOUT.LABEL_MARGIN;
+  const marginY = LAYOUT.MAIN_RECT_HEIGHT / 2 + LAYOUT.PADDING;
+  return {
+    strategy,
+    positions,
+    bounds: {
+      minX: Math.min(0, ...xs) - marginX,
+      maxX: Math.max(0, ...xs) + marginX,
+      minY: Math.min(0, ...ys) - marginY,
+      maxY: Math.max(0, ...ys) + marginY,
+    },
+  };
+}
+
+export interface RoutedNode {
+  type: INode['type'];
+  x: number;
+  y: number;
+}
+
+export interface LinkRoute {
+  path: string;
+  label: { x: number; y: number };
+}
+
+/**
+ * Where a straight line from the center of a main reservoir towards (dx, dy) leaves its rectangle
+ */
+function rectBoundaryOffset(dx: number, dy: number) {
+  const halfWidth = LAYOUT.MAIN_RECT_WIDTH / 2;
+  const halfHeight = LAYOUT.MAIN_RECT_HEIGHT / 2;
+  const scale = Math.min(
+    dx === 0 ? Infinity : halfWidth / Math.abs(dx),
+    dy === 0 ? Infinity : halfHeight / Math.abs(dy)
+  );
+  return { x: dx * scale, y: dy * scale };
+}
+
+/**
+ * Route a link between two positioned nodes: right-angle connectors for the
+ * horizontal and top-down layouts, straight lines for radial. The label point is
+ * next to the connection node.
+ */
+export function routeLink(source: RoutedNode, target: RoutedNode, strategy: LayoutStrategy): LinkRoute {
+  if (strategy === 'radial') {
+    const dx = target.x - source.x;
+    const dy = target.y - source.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const start = source.type === 'main_reservoir' ? rectBoundaryOffset(dx, dy) : { x: 0, y: 0 };
+    const end =
+      target.type === 'main_reservoir'
+        ? rectBoundaryOffset(-dx, -dy)
+        : { x: (-dx / length) * LAYOUT.NODE_RADIUS, y: (-dy / length) * LAYOUT.NODE_RADIUS };
+    const x1 = source.x + start.x;
+    const y1 = source.y + start.y;
+    const x2 = target.x + end.x;
+    const y2 = target.y + end.y;
+    return { path: `M ${x1},${y1} L ${x2},${y2}`, label: { x: (x1 + x2) / 2, y: (y1 + y2) / 2 - 6 } };
+  }
+
+  if (strategy === 'top-down') {
+    let x1 = source.x;
+    let y1 = source.y;
+    const x2 = target.x;
+    let y2 = target.y;
+
+    // Outflows leave from the bottom-left of the rectangle, projects from the bottom-right
+    if (source.type === 'main_reservoir') {
+      y1 = source.y + LAYOUT.MAIN_RECT_HEIGHT / 2;
+      if (sideOf(target) === 'outflow') {
+        x1 = source.x - LAYOUT.MAIN_RECT_WIDTH / 4;
+      } else if (sideOf(target) === 'project') {
+        x1 = source.x + LAYOUT.MAIN_RECT_WIDTH / 4;
+      }
+    }
+    y2 = target.type === 'main_reservoir' ? target.y - LAYOUT.MAIN_RECT_HEIGHT / 2 : y2 - LAYOUT.NODE_RADIUS;
+
+    const midY = (y1 + y2) / 2;
+    const label =
+      target.type === 'main_reservoir' ? { x: x1, y: (y1 + midY) / 2 } : { x: x2, y: (midY + y2) / 2 };
+    return { path: `M ${x1},${y1} L ${x1},${midY} L ${x2},${midY} L ${x2},${y2}`, label };
+  }
+
+  // Create right-angle path
+  let x1 = source.x;
+  let y1 = source.y;
+  let x2 = target.x;
+  const y2 = target.y;
+
+  // For outflows from main node, start from top-right of rectangle
+  // For projects from main node, start from bottom-right of rectangle
+  if (source.type === 'main_reservoir') {
+    x1 = source.x + LAYOUT.MAIN_RECT_WIDTH / 2;
+
+    if (sideOf(target) === 'outflow') {
+      y1 = source.y - LAYOUT.MAIN_RECT_HEIGHT / 4;
+    } else if (sideOf(target) === 'project') {
+      y1 = source.y + LAYOUT.MAIN_RECT_HEIGHT / 4;
+    }
+  }
+
+  // For inflows to main node, end at left edge of rectangle
+  if (target.type === 'main_reservoir') {
+    x2 = target.x - LAYOUT.MAIN_RECT_WIDTH / 2;
+  } else {
+    // For other nodes (circles), stop before the node radius
+    x2 = x2 - LAYOUT.NODE_RADIUS;
+  }
+
+  // Calculate midpoint for right angle
+  const midX = (x1 + x2) / 2;
+
+  // Flow labels sit on the horizontal segment next to the connection node
+  const label =
+    target.type === 'main_reservoir' ? { x: (x1 + midX) / 2, y: y1 - 6 } : { x: (midX + x2) / 2, y: y2 - 6 };
+
+  // Horizontal from source, vertical turn, horizontal to target
+  return { path: `M ${x1},${y1} L ${midX},${y1} L ${midX},${y2} L ${x2},${y2}`, label };
+}
+
+/**
+ * Baseline offsets of each line of a circle label. Side labels are centered on the
+ * node, labels above grow upwards and labels below grow downwards.
+ */
+export function labelLineOffsets(side: LabelSide, lineCount: number): number[] {
+  const { textY } = LABEL_OFFSETS[side];
+  return Array.from({ length: lineCount }, (_, i) => {
+    if (side === 'above') return textY - (lineCount - 1 - i) * LAYOUT.LABEL_LINE_HEIGHT;
+    if (side === 'below') return textY + i * LAYOUT.LABEL_LINE_HEIGHT;
+    return textY + (i - (lineCount - 1) / 2) * LAYOUT.LABEL_LINE_HEIGHT;
+  });
+}
+
+export interface Box {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The area a circle label covers, for a node at (x, y) whose widest line is `width`
+ */
+export function labelBox(id: string, x: number, y: number, side: LabelSide, width: number, lineCount: number): Box {
+  const { textX, textAnchor } = LABEL_OFFSETS[side];
+  const baselines = labelLineOffsets(side, lineCount);
+  // Roughly the ascent and descent of 13px text
+  const top = y + baselines[0] - 11;
+  const bottom = y + baselines[baselines.length - 1] + 4;
+  const anchorX = x + textX;
+  const left = textAnchor === 'start' ? anchorX : textAnchor === 'end' ? anchorX - width : anchorX - width / 2;
+  return { id, x: left, y: top, width, height: bottom - top };
+}
+
+/**
+ * The area a node's shape covers
+ */
+export function nodeBox(id: string, x: number, y: number, type: INode['type']): Box {
+  const [width, height] =
+    type === 'main_reservoir'
+      ? [LAYOUT.MAIN_RECT_WIDTH, LAYOUT.MAIN_RECT_HEIGHT]
+      : [LAYOUT.NODE_RADIUS * 2, LAYOUT.NODE_RADIUS * 2];
+  return { id, x: x - width / 2, y: y - height / 2, width, height };
+}
+
+const overlaps = (a: Box, b: Box) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+/**
+ * Ids of labels that overlap another label or another node's shape.
+ * A label never collides with its own node.
+ */
+export function findLabelCollisions(labels: Box[], shapes: Box[]): Set<string> {
+  const colliding = new Set<string>();
+  labels.forEach((label, i) => {
+    labels.slice(i + 1).forEach((other) => {
+      if (overlaps(label, other)) {
+        colliding.add(label.id);
+        colliding.add(other.id);
+      }
+    });
+    if (shapes.some((shape) => shape.id !== label.id && overlaps(label, shape))) {
+      colliding.add(label.id);
+    }
+  });
+  return colliding;
+}
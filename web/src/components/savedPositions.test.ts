@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { clearSavedPositions, forgetNodePosition, loadSavedPositions, saveNodePosition } from './savedPositions';
+
+describe('savedPositions', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should return no positions when nothing is saved', () => {
+    expect(loadSavedPositions('101:horizontal')).toEqual({});
+  });
+
+  it('should save positions per layout and node', () => {
+    saveNodePosition('101:horizontal', 'inflow_101_creek', { x: 10, y: 20 });
+    saveNodePosition('101:horizontal', 'reservoir_101', { x: 0, y: 5 });
+    saveNodePosition('105:horizontal', 'reservoir_105', { x: 1, y: 1 });
+
+    expect(loadSavedPositions('101:horizontal')).toEqual({
+      inflow_101_creek: { x: 10, y: 20 },
+      reservoir_101: { x: 0, y: 5 },
+    });
+    expect(loadSavedPositions('101:radial')).toEqual({});
+  });
+
+  it('should overwrite a node moved again', () => {
+    saveNodePosition('101:horizontal', 'reservoir_101', { x: 0, y: 5 });
+    saveNodePosition('101:horizontal', 'reservoir_101', { x: 30, y: 40 });
+
+    expect(loadSavedPositions('101:horizontal')).toEqual({ reservoir_101: { x: 30, y: 40 } });
+  });
+
+  it('should forget a single node', () => {
+    saveNodePosition('101:horizontal', 'reservoir_101', { x: 0, y: 5 });
+    saveNodePosition('101:horizontal', 'inflow_101_creek', { x: 10, y: 20 });
+    forgetNodePosition('101:horizontal', 'reservoir_101');
+
+    expect(loadSavedPositions('101:horizontal')).toEqual({ inflow_101_creek: { x: 10, y: 20 } });
+  });
+
+  it('should clear one layout only', () => {
+    saveNodePosition('101:horizontal', 'reservoir_101', { x: 0, y: 5 });
+    saveNodePosition('105:horizontal', 'reservoir_105', { x: 1, y: 1 });
+
+    clearSavedPositions('101:horizontal');
+
+    expect(loadSavedPositions('101:horizontal')).toEqual({});
+    expect(loadSavedPositions('105:horizontal')).toEqual({ reservoir_105: { x: 1, y: 1 } });
+  });
+
+  it('should ignore corrupt storage', () => {
+    window.localStorage.setItem('reservoir-pedigree:positions:101:horizontal', '{not json');
+    expect(loadSavedPositions('101:horizontal')).toEqual({});
+
+    window.localStorage.setItem(
+      'reservoir-pedigree:positions:101:horizontal',
+      JSON.stringify({ good: { x: 1, y: 2 }, bad: { x: 'left' } })
+    );
+    expect(loadSavedPositions('101:horizontal')).toEqual({ good: { x: 1, y: 2 } });
+  });
+});
@@ -0,0 +1,70 @@
+/** A node position the user placed by dragging */
+export interface SavedPosition {
+  x: number;
+  y: number;
+}
+
+export type SavedPositions = Record<string, SavedPosition>;
+
+const STORAGE_PREFIX = 'reservoir-pedigree:positions:';
+
+const storageKey = (layoutKey: string) => `${STORAGE_PREFIX}${layoutKey}`;
+
+function isSavedPosition(value: unknown): value is SavedPosition {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Number.isFinite((value as SavedPosition).x) &&
+    Number.isFinite((value as SavedPosition).y)
+  );
+}
+
+/**
+ * Saved positions for a layout, by node id. Missing, unreadable or corrupt
+ * storage yields no positions rather than an error.
+ */
+export function loadSavedPositions(layoutKey: string): SavedPositions {
+  try {
+    const raw = window.localStorage.getItem(storageKey(layoutKey));
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    if (typeof parsed !== 'object' || parsed === null) return {};
+    return Object.fromEntries(Object.entries(parsed).filter(([, value]) => isSavedPosition(value)));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Remember where a node was dragged to
+ */
+export function saveNodePosition(layoutKey: string, nodeId: string, position: SavedPosition) {
+  const positions = { ...loadSavedPositions(layoutKey), [nodeId]: position };
+  try {
+    window.localStorage.setItem(storageKey(layoutKey), JSON.stringify(positions));
+  } catch {
+    // Storage full or disabled: the position still applies until the next redraw
+  }
+}
+
+/**
+ * Forget where one node was dragged to, so it returns to its computed position
+ */
+export function forgetNodePosition(layoutKey: string, nodeId: string) {
+  const { [nodeId]: _forgotten, ...positions } = loadSavedPositions(layoutKey);
+  try {
+    window.localStorage.setItem(storageKey(layoutKey), JSON.stringify(positions));
+  } catch {
+    // Nothing saved if storage is unavailable
+  }
+}
+
+/**
+ * Forget all dragged positions for a layout
+ */
+export function clearSavedPositions(layoutKey: string) {
+  try {
+    window.localStorage.removeItem(storageKey(layoutKey));
+  } catch {
+    // Nothing saved if storage is unavailable
+  }
+}
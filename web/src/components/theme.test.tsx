@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { THEMES, ThemeProvider, loadThemeName, nodeColors, saveThemeName, useTheme } from './theme';
+import { listNodeTypes, registerNodeType } from '@data/nodeTypes';
+
+const prefersDark = (matches: boolean) =>
+  vi.stubGlobal('matchMedia', (query: string) => ({ matches: matches && query.includes('dark'), media: query }));
+
+describe('theme', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should default to light', () => {
+    expect(loadThemeName()).toBe('light');
+  });
+
+  it('should follow a system preference for dark', () => {
+    prefersDark(true);
+    expect(loadThemeName()).toBe('dark');
+  });
+
+  it('should prefer the saved theme over the system preference', () => {
+    prefersDark(true);
+    saveThemeName('colorblind');
+    expect(loadThemeName()).toBe('colorblind');
+  });
+
+  it('should ignore an unknown saved theme', () => {
+    window.localStorage.setItem('reservoir-pedigree:theme', 'neon');
+    expect(loadThemeName()).toBe('light');
+  });
+
+  it('should draw in light without a provider', () => {
+    const { result } = renderHook(() => useTheme());
+    expect(result.current.theme).toBe(THEMES.light);
+  });
+
+  it('should switch and remember the theme', () => {
+    const { result } = renderHook(() => useTheme(), { wrapper: ThemeProvider });
+    expect(result.current.name).toBe('light');
+
+    act(() => result.current.setThemeName('dark'));
+
+    expect(result.current.theme).toBe(THEMES.dark);
+    expect(loadThemeName()).toBe('dark');
+  });
+
+  it('should give every node type distinct colors in each theme', () => {
+    Object.values(THEMES).forEach((theme) => {
+      const fills = listNodeTypes().map((type) => nodeColors(theme, type).fill);
+      expect(new Set(fills).size).toBe(fills.length);
+    });
+  });
+
+  it('should draw a registered type in its own colors for each theme', () => {
+    registerNodeType('fish_ladder', {
+      label: 'Fish ladder',
+      legendLabel: 'Fish ladders',
+      shape: 'square',
+      colors: {
+        light: { fill: '#6A994E', stroke: '#527A3C' },
+        dark: { fill: '#8CBF6E', stroke: '#A9D48F' },
+        colorblind: { fill: '#F0E4FF', stroke: '#332288' },
+      },
+      side: 'project',
+    });
+
+    expect(nodeColors(THEMES.light, 'fish_ladder').fill).toBe('#6A994E');
+    expect(nodeColors(THEMES.dark, 'fish_ladder').fill).toBe('#8CBF6E');
+    expect(nodeColors(THEMES.colorblind, 'fish_ladder').stroke).toBe('#332288');
+  });
+});
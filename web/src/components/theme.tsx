@@ -0,0 +1,193 @@
+import { createContext, useContext, useState } from 'react';
+import { getNodeType } from '@data/nodeTypes';
+import type { NodeColors, NodeType, Themed } from '@data/nodeTypes';
+
+export type ThemeName = keyof Themed<unknown>;
+
+/** Every color the app draws with, for the graph and the UI around it */
+export interface Theme {
+  colorScheme: 'light' | 'dark'; // For native controls and scrollbars
+  palette: ThemeName; // Which of each node type's registered colors to use; they also color links and arrowheads
+  graph: {
+    background: string;
+    label: string;
+    labelHalo: string; // Outline that keeps labels readable over links
+    reservoirLabel: string; // Text inside the main reservoir rectangle
+    mutedLabel: string; // Storage levels
+    legendBackground: string;
+    legendBorder: string;
+    focusRing: string;
+    highlightRing: string;
+  };
+  chrome: {
+    background: string;
+    surface: string; // Header, panels, buttons and inputs
+    text: string;
+    mutedText: string;
+    border: string; // Around controls
+    divider: string; // Between sections and table rows
+    hover: string;
+    accent: string; // Selected toggles
+    accentText: string;
+    link: string;
+    shadow: string;
+    backdrop: string; // Behind dialogs
+    error: string;
+    errorBackground: string;
+    warning: string;
+    warningBackground: string;
+    selection: string; // Selected rows
+  };
+}
+
+const LIGHT: Theme = {
+  colorScheme: 'light',
+  palette: 'light',
+  graph: {
+    background: '#F5F5F0',
+    label: '#333',
+    labelHalo: 'white',
+    reservoirLabel: 'white',
+    mutedLabel: '#555',
+    legendBackground: 'white',
+    legendBorder: '#999',
+    focusRing: '#F5A623',
+    highlightRing: '#8E44AD',
+  },
+  chrome: {
+    background: '#f0f2f5',
+    surface: 'white',
+    text: '#333',
+    mutedText: '#666',
+    border: '#ccc',
+    divider: '#e0e0e0',
+    hover: '#f0f0f0',
+    accent: '#5B7FDB',
+    accentText: 'white',
+    link: '#4A6BC5',
+    shadow: 'rgba(0,0,0,0.15)',
+    backdrop: 'rgba(0,0,0,0.35)',
+    error: '#B3261E',
+    errorBackground: '#FDECEA',
+    warning: '#8A5A00',
+    warningBackground: '#FFF4E0',
+    selection: '#FFF4DE',
+  },
+};
+
+const DARK: Theme = {
+  colorScheme: 'dark',
+  palette: 'dark',
+  graph: {
+    background: '#1E2126',
+    label: '#E6E6E6',
+    labelHalo: '#1E2126',
+    reservoirLabel: 'white',
+    mutedLabel: '#AAB0B8',
+    legendBackground: '#2A2E35',
+    legendBorder: '#555C66',
+    focusRing: '#F5A623',
+    highlightRing: '#C39BD3',
+  },
+  chrome: {
+    background: '#16181C',
+    surface: '#24272D',
+    text: '#E6E6E6',
+    mutedText: '#A0A6AE',
+    border: '#454B55',
+    divider: '#353A42',
+    hover: '#30343B',
+    accent: '#5B7FDB',
+    accentText: 'white',
+    link: '#8AA6F0',
+    shadow: 'rgba(0,0,0,0.5)',
+    backdrop: 'rgba(0,0,0,0.6)',
+    error: '#F2B8B5',
+    errorBackground: '#4A2323',
+    warning: '#F0C674',
+    warningBackground: '#3D3220',
+    selection: '#3A3322',
+  },
+};
+
+// Node types are drawn in Okabe–Ito colors, which stay distinct with the common forms
+// of color blindness. Vermillion is kept for the focus ring.
+const COLORBLIND: Theme = {
+  ...LIGHT,
+  palette: 'colorblind',
+  graph: { ...LIGHT.graph, focusRing: '#D55E00', highlightRing: '#222' },
+  chrome: { ...LIGHT.chrome, accent: '#0072B2', link: '#0072B2' },
+};
+
+/** A node type's colors in a theme */
+export const nodeColors = (theme: Theme, type: NodeType): NodeColors =>
+  getNodeType(type).colors[theme.palette];
+
+export const THEMES: Record<ThemeName, Theme> = {
+  light: LIGHT,
+  dark: DARK,
+  colorblind: COLORBLIND,
+};
+
+export const THEME_OPTIONS: { value: ThemeName; label: string }[] = [
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'colorblind', label: 'Colorblind-safe' },
+];
+
+const STORAGE_KEY = 'reservoir-pedigree:theme';
+
+const isThemeName = (value: unknown): value is ThemeName =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(THEMES, value);
+
+/**
+ * The theme chosen last time, else dark when the system prefers it, else light
+ */
+export function loadThemeName(): ThemeName {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    if (isThemeName(saved)) return saved;
+  } catch {
+    // Storage disabled: fall through to the system preference
+  }
+  return window.matchMedia?.('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
+}
+
+export function saveThemeName(name: ThemeName) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, name);
+  } catch {
+    // The choice still applies until the page is closed
+  }
+}
+
+interface ThemeContextValue {
+  name: ThemeName;
+  theme: Theme;
+  setThemeName: (name: ThemeName) => void;
+}
+
+// Without a provider (e.g. in tests) everything draws in the light theme
+const ThemeContext = createContext<ThemeContextValue>({
+  name: 'light',
+  theme: LIGHT,
+  setThemeName: () => {},
+});
+
+/**
+ * Supply the user's theme to everything below, remembering changes in the browser
+ */
+export const ThemeProvider = ({ children }: { children: React.ReactNode }) => {
+  const [name, setName] = useState(loadThemeName);
+
+  const setThemeName = (next: ThemeName) => {
+    saveThemeName(next);
+    setName(next);
+  };
+
+  return (
+    <ThemeContext.Provider value={{ name, theme: THEMES[name], setThemeName }}>{children}</ThemeContext.Provider>
+  );
+};
+
+export const useTheme = () => useContext(ThemeContext);
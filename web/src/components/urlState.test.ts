@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { formatUrlState, parseUrlState } from './urlState';
+
+describe('urlState', () => {
+  it('should write and read back the whole view', () => {
+    const state = {
+      reservoirId: 105,
+      zoom: { x: -682.04, y: -11.5, k: 1.6 },
+      focusNodeId: 'inflow_105_stone-creek',
+      generations: 2,
+      linkWidthMode: 'flow' as const,
+      layoutStrategy: 'radial' as const,
+    };
+    const search = formatUrlState(state);
+
+    expect(search).toBe(
+      '?reservoir=105&zoom=-682,-11.5,1.6&focus=inflow_105_stone-creek&generations=2&flow=1&layout=radial'
+    );
+    expect(parseUrlState(search)).toEqual({ ...state, zoom: { x: -682, y: -11.5, k: 1.6 } });
+  });
+
+  it('should write nothing for an empty view', () => {
+    expect(formatUrlState({})).toBe('');
+    expect(parseUrlState('')).toEqual({});
+  });
+
+  it('should leave out malformed parameters', () => {
+    expect(
+      parseUrlState('?reservoir=abc&zoom=1,2&generations=-1&flow=yes&layout=circle&focus=')
+    ).toEqual({});
+    expect(parseUrlState('?zoom=1,2,0&reservoir=7')).toEqual({ reservoirId: 7 });
+  });
+});
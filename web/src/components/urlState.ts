@@ -0,0 +1,77 @@
+import { LAYOUT_STRATEGIES } from './graphLayout';
+import type { LayoutStrategy } from './graphLayout';
+import type { LinkWidthMode, ZoomState } from './ReservoirGraph';
+
+/** The part of the view kept in the page URL, so it can be shared and revisited */
+export interface UrlState {
+  reservoirId?: number;
+  zoom?: ZoomState;
+  focusNodeId?: string; // The node chosen from search or the table, by its id in the reservoir's graph
+  generations?: number;
+  linkWidthMode?: LinkWidthMode;
+  layoutStrategy?: LayoutStrategy;
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+function parseZoom(value: string | null): ZoomState | undefined {
+  const parts = value?.split(',').map(Number);
+  if (!parts || parts.length !== 3 || !parts.every(Number.isFinite)) return undefined;
+  const [x, y, k] = parts;
+  return k > 0 ? { x, y, k } : undefined;
+}
+
+function parseCount(value: string | null): number | undefined {
+  if (value === null || !/^\d+$/.test(value)) return undefined;
+  return Number(value);
+}
+
+/**
+ * Read the view from a query string. Missing or malformed parameters are left
+ * out, so the app falls back to its defaults for them.
+ */
+export function parseUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search);
+  const state: UrlState = {};
+
+  const reservoirId = parseCount(params.get('reservoir'));
+  if (reservoirId !== undefined) state.reservoirId = reservoirId;
+
+  const zoom = parseZoom(params.get('zoom'));
+  if (zoom) state.zoom = zoom;
+
+  const focus = params.get('focus');
+  if (focus) state.focusNodeId = focus;
+
+  const generations = parseCount(params.get('generations'));
+  if (generations !== undefined) state.generations = generations;
+
+  const flow = params.get('flow');
+  if (flow === '1' || flow === '0') state.linkWidthMode = flow === '1' ? 'flow' : 'uniform';
+
+  const layout = LAYOUT_STRATEGIES.find((s) => s.value === params.get('layout'));
+  if (layout) state.layoutStrategy = layout.value;
+
+  return state;
+}
+
+/**
+ * Write the view as a query string (with its leading "?"), e.g.
+ * `?reservoir=105&zoom=-682,-11,1.6&generations=2&flow=1&layout=radial`
+ */
+export function formatUrlState(state: UrlState): string {
+  const params = new URLSearchParams();
+  if (state.reservoirId !== undefined) params.set('reservoir', String(state.reservoirId));
+  if (state.zoom) {
+    const { x, y, k } = state.zoom;
+    params.set('zoom', [round(x, 1), round(y, 1), round(k, 3)].join(','));
+  }
+  if (state.focusNodeId) params.set('focus', state.focusNodeId);
+  if (state.generations !== undefined) params.set('generations', String(state.generations));
+  if (state.linkWidthMode) params.set('flow', state.linkWidthMode === 'flow' ? '1' : '0');
+  if (state.layoutStrategy) params.set('layout', state.layoutStrategy);
+
+  // Commas read better than %2C and are safe in a query string
+  const query = params.toString().replace(/%2C/g, ',');
+  return query ? `?${query}` : '';
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { convertFlow, formatFlow, isKnownFlowUnit, toCubicMetresPerSecond } from './flowUnits';
+
+describe('flowUnits', () => {
+  it('should convert known units to cubic metres per second', () => {
+    expect(toCubicMetresPerSecond({ value: 250, unit: 'L/s' })).toBeCloseTo(0.25);
+    expect(toCubicMetresPerSecond({ value: 86.4, unit: 'ML/d' })).toBeCloseTo(1);
+  });
+
+  it('should return undefined for unknown units', () => {
+    expect(isKnownFlowUnit('gallons/fortnight')).toBe(false);
+    expect(toCubicMetresPerSecond({ value: 1, unit: 'gallons/fortnight' })).toBeUndefined();
+  });
+
+  it('should convert between units', () => {
+    expect(convertFlow({ value: 1, unit: 'm3/s' }, 'L/s')).toEqual({ value: 1000, unit: 'L/s' });
+  });
+
+  it('should format flows with their unit', () => {
+    expect(formatFlow({ value: 12.5, unit: 'm3/s' })).toBe('12.5 m3/s');
+    expect(formatFlow({ value: 1234.5, unit: 'L/s' })).toBe('1,235 L/s');
+  });
+});
@@ -0,0 +1,52 @@
+import * as d3 from 'd3';
+
+/** A flow rate with its unit, e.g. { value: 12.5, unit: 'm3/s' } */
+export interface FlowQuantity {
+  value: number;
+  unit: string;
+}
+
+/** Conversion factors to cubic metres per second */
+const TO_CUBIC_METRES_PER_SECOND: Record<string, number> = {
+  'm3/s': 1,
+  'L/s': 0.001,
+  'ML/d': 1000 / 86400,
+  cfs: 0.0283168466,
+  'af/d': 1233.48184 / 86400,
+};
+
+export const FLOW_UNITS = Object.keys(TO_CUBIC_METRES_PER_SECOND);
+
+/**
+ * True if the unit can be converted for comparisons and totals
+ */
+export function isKnownFlowUnit(unit: string): boolean {
+  return unit in TO_CUBIC_METRES_PER_SECOND;
+}
+
+/**
+ * Convert a flow to cubic metres per second, or undefined for unknown units
+ */
+export function toCubicMetresPerSecond(flow: FlowQuantity): number | undefined {
+  const factor = TO_CUBIC_METRES_PER_SECOND[flow.unit];
+  return factor === undefined ? undefined : flow.value * factor;
+}
+
+/**
+ * Convert a flow into another known unit, or undefined if either unit is unknown
+ */
+export function convertFlow(flow: FlowQuantity, unit: string): FlowQuantity | undefined {
+  const base = toCubicMetresPerSecond(flow);
+  const factor = TO_CUBIC_METRES_PER_SECOND[unit];
+  if (base === undefined || factor === undefined) return undefined;
+  return { value: base / factor, unit };
+}
+
+const formatValue = d3.format(',.4~r');
+
+/**
+ * Format a flow for display, e.g. "12.5 m3/s"
+ */
+export function formatFlow(flow: FlowQuantity): string {
+  return `${formatValue(flow.value)} ${flow.unit}`;
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { toDot, toGraphML, toMermaid } from './graphFormats';
+import type { IGraphData } from './reservoirData';
+
+describe('graphFormats', () => {
+  const graph: IGraphData = {
+    nodes: [
+      { id: 'reservoir_1', label: 'Emerald "Big" Lake', type: 'main_reservoir' },
+      { id: 'inflow_1_creek', label: 'Creek & Springs', type: 'inflow' },
+      { id: 'project_1_dam', label: 'Dam', type: 'project' },
+    ],
+    links: [
+      { source: 'inflow_1_creek', target: 'reservoir_1', flow: { value: 2.5, unit: 'm3/s' } },
+      { source: 'reservoir_1', target: 'project_1_dam' },
+    ],
+  };
+
+  describe('toGraphML', () => {
+    it('should produce well-formed GraphML with types, labels and directed edges', () => {
+      const text = toGraphML(graph, 'Emerald');
+      const doc = new DOMParser().parseFromString(text, 'application/xml');
+
+      expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+      expect(doc.querySelector('graph')?.getAttribute('edgedefault')).toBe('directed');
+      const creek = doc.querySelector('node[id="inflow_1_creek"]');
+      expect(creek?.querySelector('data[key="label"]')?.textContent).toBe('Creek & Springs');
+      expect(creek?.querySelector('data[key="type"]')?.textContent).toBe('inflow');
+      const edges = doc.querySelectorAll('edge');
+      expect(edges).toHaveLength(2);
+      expect(edges[0].getAttribute('source')).toBe('inflow_1_creek');
+      expect(edges[0].querySelector('data[key="flow"]')?.textContent).toBe('2.5');
+    });
+
+    it('should escape registered type names', () => {
+      const text = toGraphML({ nodes: [{ id: 'a', label: 'A', type: 'weir <"old">' }], links: [] }, 'Weirs');
+      const doc = new DOMParser().parseFromString(text, 'application/xml');
+
+      expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+      expect(doc.querySelector('data[key="type"]')?.textContent).toBe('weir <"old">');
+    });
+  });
+
+  describe('toDot', () => {
+    it('should declare typed nodes and directed edges', () => {
+      const text = toDot(graph, 'Emerald');
+
+      expect(text.startsWith('digraph "Emerald" {')).toBe(true);
+      expect(text).toContain('"reservoir_1" [label="Emerald \\"Big\\" Lake", shape=box, class="main_reservoir"];');
+      expect(text).toContain('"inflow_1_creek" -> "reservoir_1" [label="2.5 m3/s"];');
+      expect(text).toContain('"reservoir_1" -> "project_1_dam";');
+    });
+
+    it('should draw each node type in its registered shape', () => {
+      const text = toDot(
+        { nodes: [{ id: 'gauge_1', label: 'Gauge', type: 'gauge' }], links: [] },
+        'Gauges'
+      );
+
+      expect(text).toContain('"gauge_1" [label="Gauge", shape=diamond, class="gauge"];');
+    });
+
+    it('should quote type names', () => {
+      const text = toDot({ nodes: [{ id: 'a', label: 'A', type: 'old "weir"' }], links: [] }, 'Weirs');
+
+      expect(text).toContain('"a" [label="A", shape=ellipse, class="old \\"weir\\""];');
+    });
+
+    it('should style links by kind and keep their labels', () => {
+      const text = toDot(
+        {
+          nodes: [],
+          links: [
+            { source: 'a', target: 'b', kind: 'pipeline', label: 'Main', flow: { value: 1, unit: 'm3/s' } },
+            { source: 'b', target: 'c', kind: 'natural_channel' },
+          ],
+        },
+        'Links'
+      );
+
+      expect(text).toContain('"a" -> "b" [label="Main · 1 m3/s", style=dotted, class="pipeline"];');
+      expect(text).toContain('"b" -> "c" [style=solid, class="natural_channel"];');
+    });
+  });
+
+  describe('toMermaid', () => {
+    it('should produce a left-to-right flowchart with type classes', () => {
+      const text = toMermaid(graph, 'Emerald');
+
+      expect(text).toContain('flowchart LR');
+      expect(text).toContain('reservoir_1["Emerald #quot;Big#quot; Lake"]');
+      expect(text).toContain('inflow_1_creek(["Creek & Springs"])');
+      expect(text).toContain('inflow_1_creek -->|"2.5 m3/s"| reservoir_1');
+      expect(text).toContain('classDef inflow fill:#E88BA8,stroke:#D67A97');
+      expect(text).toContain('class inflow_1_creek inflow');
+    });
+
+    it('should define a class for every type shown, with a valid name', () => {
+      const text = toMermaid({ nodes: [{ id: 'a', label: 'A', type: 'old weir' }], links: [] }, 'Weirs');
+
+      expect(text).toContain('classDef old_weir fill:#B0B0B0,stroke:#8C8C8C');
+      expect(text).toContain('class a old_weir');
+      expect(text).not.toContain('main_reservoir');
+    });
+
+    it('should keep sanitized ids distinct', () => {
+      const text = toMermaid(
+        {
+          nodes: [
+            { id: 'a-b', label: 'One', type: 'inflow' },
+            { id: 'a_b', label: 'Two', type: 'outflow' },
+          ],
+          links: [{ source: 'a-b', target: 'a_b' }],
+        },
+        'Collisions'
+      );
+
+      expect(text).toContain('a_b --> a_b_2');
+    });
+  });
+});
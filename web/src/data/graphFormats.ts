@@ -0,0 +1,195 @@
+import type { IGraphData, ILink } from './reservoirData';
+import { formatFlow } from './flowUnits';
+import { getNodeType, listNodeTypes } from './nodeTypes';
+import type { NodeShape } from './nodeTypes';
+import { getLinkKind } from './linkKinds';
+import type { LinkKind } from './linkKinds';
+
+export type GraphFormat = 'graphml' | 'dot' | 'mermaid';
+
+export interface GraphFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (data: IGraphData, name: string) => string;
+}
+
+const DOT_SHAPES: Record<NodeShape, string> = {
+  rect: 'box',
+  circle: 'ellipse',
+  square: 'square',
+  diamond: 'diamond',
+  triangle: 'triangle',
+  hexagon: 'hexagon',
+};
+
+// Mermaid node syntax around the label for each shape
+const MERMAID_SHAPES: Record<NodeShape, [string, string]> = {
+  rect: ['[', ']'],
+  circle: ['([', '])'],
+  square: ['[', ']'],
+  diamond: ['{', '}'],
+  triangle: ['[/', '\\]'],
+  hexagon: ['{{', '}}'],
+};
+
+// The link's own label and its flow, as drawn in the graph
+const linkText = (link: ILink) => [link.label, link.flow && formatFlow(link.flow)].filter(Boolean).join(' · ');
+
+// Nearest line style to a link kind's pattern: round-capped dashes are dots
+function kindStyle(kind: LinkKind): 'solid' | 'dashed' | 'dotted' {
+  const { dasharray, linecap } = getLinkKind(kind);
+  return !dasharray ? 'solid' : linecap === 'round' ? 'dotted' : 'dashed';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Serialize to GraphML (e.g. for yEd). Node type and label are data keys; link flows
+ * are kept as value and unit, alongside the link's kind and label.
+ */
+export function toGraphML(data: IGraphData, name: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="flow" for="edge" attr.name="flow" attr.type="double"/>',
+    '  <key id="flow_unit" for="edge" attr.name="flow_unit" attr.type="string"/>',
+    '  <key id="kind" for="edge" attr.name="kind" attr.type="string"/>',
+    '  <key id="edge_label" for="edge" attr.name="label" attr.type="string"/>',
+    `  <graph id="${escapeXml(name)}" edgedefault="directed">`,
+  ];
+
+  data.nodes.forEach((node) => {
+    lines.push(
+      `    <node id="${escapeXml(node.id)}">`,
+      `      <data key="label">${escapeXml(node.label)}</data>`,
+      `      <data key="type">${escapeXml(node.type)}</data>`,
+      '    </node>'
+    );
+  });
+
+  data.links.forEach((link, i) => {
+    const edge = `    <edge id="e${i}" source="${escapeXml(link.source)}" target="${escapeXml(link.target)}"`;
+    const edgeData = [
+      ...(link.flow
+        ? [
+          `      <data key="flow">${link.flow.value}</data>`,
+          `      <data key="flow_unit">${escapeXml(link.flow.unit)}</data>`,
+        ]
+        : []),
+      ...(link.kind ? [`      <data key="kind">${escapeXml(link.kind)}</data>`] : []),
+      ...(link.label ? [`      <data key="edge_label">${escapeXml(link.label)}</data>`] : []),
+    ];
+    if (edgeData.length === 0) {
+      lines.push(`${edge}/>`);
+      return;
+    }
+    lines.push(`${edge}>`, ...edgeData, '    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+}
+
+const quoteDot = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Serialize to Graphviz DOT. Shapes follow the node types (reservoirs are boxes,
+ * plain connections ellipses) and line styles the link kinds. Types and kinds are
+ * kept in the standard `class` attribute, which Graphviz carries into SVG output.
+ */
+export function toDot(data: IGraphData, name: string): string {
+  const lines = [`digraph ${quoteDot(name)} {`, '  rankdir=LR;'];
+
+  data.nodes.forEach((node) => {
+    const shape = DOT_SHAPES[getNodeType(node.type).shape];
+    lines.push(`  ${quoteDot(node.id)} [label=${quoteDot(node.label)}, shape=${shape}, class=${quoteDot(node.type)}];`);
+  });
+
+  data.links.forEach((link) => {
+    const text = linkText(link);
+    const attributes = [
+      ...(text ? [`label=${quoteDot(text)}`] : []),
+      ...(link.kind ? [`style=${kindStyle(link.kind)}`, `class=${quoteDot(link.kind)}`] : []),
+    ];
+    const list = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+    lines.push(`  ${quoteDot(link.source)} -> ${quoteDot(link.target)}${list};`);
+  });
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// Mermaid ids are bare words and labels can't contain raw quotes
+const mermaidId = (id: string) => id.replace(/[^A-Za-z0-9_]/g, '_');
+const mermaidText = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+
+// Sanitizing can collide ("a-b" and "a_b"); suffix repeats so every key stays distinct
+function mermaidIds(keys: string[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+  keys.forEach((key) => {
+    const base = mermaidId(key);
+    let id = base;
+    for (let n = 2; used.has(id); n++) {
+      id = `${base}_${n}`;
+    }
+    used.add(id);
+    ids.set(key, id);
+  });
+  return ids;
+}
+
+/**
+ * Serialize to a Mermaid flowchart for Markdown docs. Node types become classes in
+ * their registered colors, and patterned link kinds become dotted arrows.
+ */
+export function toMermaid(data: IGraphData, name: string): string {
+  const ids = mermaidIds(data.nodes.map((node) => node.id));
+  const idOf = (nodeId: string) => ids.get(nodeId) ?? mermaidId(nodeId);
+
+  const lines = ['---', `title: ${JSON.stringify(name)}`, '---', 'flowchart LR'];
+
+  data.nodes.forEach((node) => {
+    const label = mermaidText(node.label);
+    const [open, close] = MERMAID_SHAPES[getNodeType(node.type).shape];
+    lines.push(`  ${idOf(node.id)}${open}${label}${close}`);
+  });
+
+  data.links.forEach((link) => {
+    const text = linkText(link);
+    const label = text ? `|${mermaidText(text)}|` : '';
+    const arrow = link.kind && kindStyle(link.kind) !== 'solid' ? '-.->' : '-->';
+    lines.push(`  ${idOf(link.source)} ${arrow}${label} ${idOf(link.target)}`);
+  });
+
+  // Registered types first, in registry order, then any others
+  const shownTypes = new Set(data.nodes.map((node) => node.type));
+  const types = [...new Set([...listNodeTypes(), ...shownTypes])].filter((type) => shownTypes.has(type));
+  const classNames = mermaidIds(types);
+  types.forEach((type) => {
+    const { fill, stroke } = getNodeType(type).colors.light;
+    const members = data.nodes.filter((node) => node.type === type).map((node) => idOf(node.id));
+    lines.push(
+      `  classDef ${classNames.get(type)} fill:${fill},stroke:${stroke}`,
+      `  class ${members.join(',')} ${classNames.get(type)}`
+    );
+  });
+
+  return lines.join('\n');
+}
+
+export const GRAPH_FORMATS: Record<GraphFormat, GraphFormatInfo> = {
+  graphml: { label: 'GraphML', extension: 'graphml', mimeType: 'application/graphml+xml', serialize: toGraphML },
+  dot: { label: 'Graphviz DOT', extension: 'dot', mimeType: 'text/vnd.graphviz', serialize: toDot },
+  mermaid: { label: 'Mermaid', extension: 'mmd', mimeType: 'text/plain', serialize: toMermaid },
+};
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_LINK_DASHARRAY, getLinkKind, isLinkKind, listLinkKinds, registerLinkKind } from './linkKinds';
+
+describe('linkKinds', () => {
+  it('should give every built-in kind its own pattern', () => {
+    const patterns = listLinkKinds().map((kind) => getLinkKind(kind).dasharray);
+
+    expect(listLinkKinds()).toEqual(['natural_channel', 'canal', 'pipeline', 'spillway', 'diversion']);
+    expect(new Set([...patterns, DEFAULT_LINK_DASHARRAY]).size).toBe(patterns.length + 1);
+  });
+
+  it('should register new kinds after the existing ones', () => {
+    registerLinkKind('tunnel', { label: 'Tunnel', legendLabel: 'Tunnels', dasharray: '2,6' });
+
+    expect(listLinkKinds().at(-1)).toBe('tunnel');
+    expect(isLinkKind('tunnel')).toBe(true);
+  });
+
+  it('should draw unknown kinds like plain links', () => {
+    expect(getLinkKind('aqueduct')).toEqual({
+      label: 'aqueduct',
+      legendLabel: 'aqueduct',
+      dasharray: DEFAULT_LINK_DASHARRAY,
+    });
+    expect(isLinkKind('aqueduct')).toBe(false);
+    expect(isLinkKind(3)).toBe(false);
+  });
+});
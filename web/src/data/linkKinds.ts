@@ -0,0 +1,50 @@
+import type { Themed } from './nodeTypes';
+
+/** A link kind's key, e.g. 'canal' */
+export type LinkKind = string;
+
+export interface LinkKindDefinition {
+  label: string; // One link, e.g. 'Canal'
+  legendLabel: string; // Legend entry, e.g. 'Canals'
+  dasharray: string | null; // SVG stroke-dasharray at a 2px stroke; null is a solid line
+  linecap?: 'butt' | 'round'; // 'round' turns very short dashes into dots
+  colors?: Themed<string>; // Stroke in each theme; without it, links take their connection's color
+}
+
+/** How links without a kind are drawn */
+export const DEFAULT_LINK_DASHARRAY = '5,3';
+
+// Registration order is the order of the legend
+const BUILT_IN_LINK_KINDS: [LinkKind, LinkKindDefinition][] = [
+  ['natural_channel', { label: 'Natural channel', legendLabel: 'Natural channels', dasharray: null }],
+  ['canal', { label: 'Canal', legendLabel: 'Canals', dasharray: '12,4' }],
+  ['pipeline', { label: 'Pipeline', legendLabel: 'Pipelines', dasharray: '1,4', linecap: 'round' }],
+  ['spillway', { label: 'Spillway', legendLabel: 'Spillways', dasharray: '8,3,2,3' }],
+  ['diversion', { label: 'Diversion', legendLabel: 'Diversions', dasharray: '10,3,2,3,2,3' }],
+];
+
+const registry = new Map(BUILT_IN_LINK_KINDS);
+
+/**
+ * Add a link kind, or replace an existing one. Register kinds before the app renders.
+ */
+export function registerLinkKind(kind: LinkKind, definition: LinkKindDefinition) {
+  registry.set(kind, definition);
+}
+
+/**
+ * The definition of a link kind. Unregistered kinds are drawn like links without
+ * a kind, labelled with their key.
+ */
+export function getLinkKind(kind: LinkKind): LinkKindDefinition {
+  return registry.get(kind) ?? { label: kind, legendLabel: kind, dasharray: DEFAULT_LINK_DASHARRAY };
+}
+
+/** Every registered link kind, in registration order */
+export function listLinkKinds(): LinkKind[] {
+  return [...registry.keys()];
+}
+
+export function isLinkKind(kind: unknown): kind is LinkKind {
+  return typeof kind === 'string' && registry.has(kind);
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { getNodeType, isConnectionNodeType, listNodeTypes, registerNodeType } from './nodeTypes';
+
+describe('nodeTypes', () => {
+  const colors = {
+    light: { fill: '#777', stroke: '#555' },
+    dark: { fill: '#777', stroke: '#999' },
+    colorblind: { fill: '#777', stroke: '#555' },
+  };
+
+  it('should list the built-in types in legend order', () => {
+    expect(listNodeTypes().slice(0, 4)).toEqual(['main_reservoir', 'inflow', 'outflow', 'project']);
+    expect(getNodeType('gauge')).toMatchObject({ label: 'Gauge', shape: 'diamond', side: 'inflow' });
+  });
+
+  it('should register new types after the existing ones', () => {
+    registerNodeType('weir', {
+      label: 'Weir',
+      legendLabel: 'Weirs',
+      shape: 'square',
+      colors,
+      side: 'outflow',
+    });
+
+    expect(listNodeTypes().at(-1)).toBe('weir');
+    expect(getNodeType('weir').legendLabel).toBe('Weirs');
+    expect(isConnectionNodeType('weir')).toBe(true);
+  });
+
+  it('should keep the center for reservoirs', () => {
+    expect(() =>
+      registerNodeType('lake', {
+        label: 'Lake',
+        legendLabel: 'Lakes',
+        shape: 'rect',
+        colors,
+        side: 'center',
+      })
+    ).toThrow(/center/);
+    expect(isConnectionNodeType('main_reservoir')).toBe(false);
+  });
+
+  it('should draw unknown types as plain labelled circles', () => {
+    expect(getNodeType('sluice')).toMatchObject({ label: 'sluice', shape: 'circle', side: 'outflow' });
+    expect(isConnectionNodeType('sluice')).toBe(false);
+    expect(isConnectionNodeType(42)).toBe(false);
+  });
+});
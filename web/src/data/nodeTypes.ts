@@ -0,0 +1,190 @@
+/** A node type's key, e.g. 'inflow' or 'gauge' */
+export type NodeType = string;
+
+/** 'rect' is the reservoir rectangle; connection nodes use the smaller symbols */
+export type NodeShape = 'rect' | 'circle' | 'square' | 'diamond' | 'triangle' | 'hexagon';
+
+/**
+ * Where the layouts place a node around its reservoir: inflows upstream, outflows
+ * and projects downstream (outflows first). Only reservoirs sit in the center.
+ */
+export type LayoutSide = 'center' | 'inflow' | 'outflow' | 'project';
+
+export interface NodeColors {
+  fill: string;
+  stroke: string;
+}
+
+/** One value for each of the app's themes */
+export interface Themed<T> {
+  light: T;
+  dark: T;
+  colorblind: T; // Stays distinguishable with the common forms of color blindness
+}
+
+export interface NodeTypeDefinition {
+  label: string; // One node, e.g. 'Gauge'
+  legendLabel: string; // Legend and filter entry, e.g. 'Gauges'
+  shape: NodeShape;
+  colors: Themed<NodeColors>; // A set for every theme, so types stay distinct in each
+  side: LayoutSide;
+}
+
+// Registration order is the order of the legend and type filters
+const BUILT_IN_NODE_TYPES: [NodeType, NodeTypeDefinition][] = [
+  [
+    'main_reservoir',
+    {
+      label: 'Reservoir',
+      legendLabel: 'Reservoirs',
+      shape: 'rect',
+      colors: {
+        light: { fill: '#5B7FDB', stroke: '#4A6BC5' },
+        dark: { fill: '#5B7FDB', stroke: '#8AA6F0' },
+        colorblind: { fill: '#0072B2', stroke: '#005A8C' },
+      },
+      side: 'center',
+    },
+  ],
+  [
+    'inflow',
+    {
+      label: 'Inflow',
+      legendLabel: 'Inflows',
+      shape: 'circle',
+      colors: {
+        light: { fill: '#E88BA8', stroke: '#D67A97' },
+        dark: { fill: '#E88BA8', stroke: '#F0A5BC' },
+        colorblind: { fill: '#E69F00', stroke: '#B87F00' },
+      },
+      side: 'inflow',
+    },
+  ],
+  [
+    'outflow',
+    {
+      label: 'Outflow',
+      legendLabel: 'Outflows',
+      shape: 'circle',
+      colors: {
+        light: { fill: '#4DB8D8', stroke: '#3CA7C7' },
+        dark: { fill: '#4DB8D8', stroke: '#70C9E3' },
+        colorblind: { fill: '#56B4E9', stroke: '#2F93CC' },
+      },
+      side: 'outflow',
+    },
+  ],
+  [
+    'project',
+    {
+      label: 'Project',
+      legendLabel: 'Projects',
+      shape: 'circle',
+      colors: {
+        light: { fill: '#4DB89A', stroke: '#3CA789' },
+        dark: { fill: '#4DB89A', stroke: '#6FCBB0' },
+        colorblind: { fill: '#CC79A7', stroke: '#A85C86' },
+      },
+      side: 'project',
+    },
+  ],
+  [
+    'gauge',
+    {
+      label: 'Gauge',
+      legendLabel: 'Gauges',
+      shape: 'diamond',
+      colors: {
+        light: { fill: '#F2C14E', stroke: '#D9A832' },
+        dark: { fill: '#F2C14E', stroke: '#F7D47F' },
+        colorblind: { fill: '#F0E442', stroke: '#C4B91E' },
+      },
+      side: 'inflow',
+    },
+  ],
+  [
+    'dam',
+    {
+      label: 'Dam',
+      legendLabel: 'Dams',
+      shape: 'triangle',
+      colors: {
+        light: { fill: '#8D7B68', stroke: '#75644F' },
+        dark: { fill: '#8D7B68', stroke: '#B3A391' },
+        colorblind: { fill: '#999999', stroke: '#777777' },
+      },
+      side: 'outflow',
+    },
+  ],
+  [
+    'pumping_station',
+    {
+      label: 'Pumping station',
+      legendLabel: 'Pumping stations',
+      shape: 'square',
+      colors: {
+        light: { fill: '#E8875B', stroke: '#D17147' },
+        dark: { fill: '#E8875B', stroke: '#F0A582' },
+        colorblind: { fill: '#000000', stroke: '#000000' },
+      },
+      side: 'project',
+    },
+  ],
+  [
+    'treatment_plant',
+    {
+      label: 'Treatment plant',
+      legendLabel: 'Treatment plants',
+      shape: 'hexagon',
+      colors: {
+        light: { fill: '#9B7ED9', stroke: '#8467C4' },
+        dark: { fill: '#9B7ED9', stroke: '#B9A3E6' },
+        colorblind: { fill: '#009E73', stroke: '#007A59' },
+      },
+      side: 'project',
+    },
+  ],
+];
+
+const registry = new Map(BUILT_IN_NODE_TYPES);
+
+/**
+ * Add a node type, or replace an existing one. Register types before the app
+ * renders; the graph's arrowheads are created for the types known at that point.
+ */
+export function registerNodeType(type: NodeType, definition: NodeTypeDefinition) {
+  if (definition.side === 'center' && type !== 'main_reservoir') {
+    throw new Error(`Node type "${type}" can't use the center; only reservoirs sit there`);
+  }
+  registry.set(type, definition);
+}
+
+/**
+ * The definition of a node type. Unregistered types are drawn as grey circles
+ * with the outflows, labelled with their key.
+ */
+export function getNodeType(type: NodeType): NodeTypeDefinition {
+  return (
+    registry.get(type) ?? {
+      label: type,
+      legendLabel: type,
+      shape: 'circle',
+      colors: {
+        light: { fill: '#B0B0B0', stroke: '#8C8C8C' },
+        dark: { fill: '#B0B0B0', stroke: '#C8C8C8' },
+        colorblind: { fill: '#B0B0B0', stroke: '#8C8C8C' },
+      },
+      side: 'outflow',
+    }
+  );
+}
+
+/** Every registered node type, in registration order */
+export function listNodeTypes(): NodeType[] {
+  return [...registry.keys()];
+}
+
+/** Whether an inflow, outflow or project may be given this type */
+export function isConnectionNodeType(type: unknown): type is NodeType {
+  return typeof type === 'string' && registry.has(type) && registry.get(type)!.side !== 'center';
+}
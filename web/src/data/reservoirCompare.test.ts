@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { compareReservoirs } from './reservoirCompare';
+import type { ReservoirConfig } from './reservoirData';
+
+describe('reservoirCompare', () => {
+  const upper: ReservoirConfig = {
+    reservoir_id: 1,
+    reservoir_name: 'Upper Lake',
+    inflow: [{ id: 'stone-creek', name: 'Stone Creek' }],
+    outflow: [{ id: 'main-canal', name: 'Main Canal' }],
+    projects: [{ id: 'hydro', name: 'Hydro Plant' }],
+  };
+  const lower: ReservoirConfig = {
+    reservoir_id: 2,
+    reservoir_name: 'Lower Lake',
+    inflow: [
+      { id: 'main-canal', name: 'main canal' },
+      { id: 'stone-creek', name: 'Stone Creek (lower reach)' },
+    ],
+    outflow: [{ id: 'sea', name: 'Sea' }],
+    projects: [],
+  };
+
+  it('should split connections into shared and unique to each side', () => {
+    const comparison = compareReservoirs(upper, lower);
+
+    expect(comparison.shared.map((c) => c.name)).toEqual(['Main Canal', 'Stone Creek']);
+    expect(comparison.leftOnly.map((c) => c.name)).toEqual(['Hydro Plant']);
+    expect(comparison.rightOnly.map((c) => c.name)).toEqual(['Sea']);
+  });
+
+  it('should record the role on each side', () => {
+    const canal = compareReservoirs(upper, lower).shared.find((c) => c.key === 'main canal');
+
+    expect(canal).toMatchObject({ left: ['outflow'], right: ['inflow'] });
+  });
+
+  it('should share everything when a reservoir is compared with itself', () => {
+    const comparison = compareReservoirs(upper, upper);
+
+    expect(comparison.shared).toHaveLength(3);
+    expect(comparison.leftOnly).toEqual([]);
+    expect(comparison.rightOnly).toEqual([]);
+  });
+});
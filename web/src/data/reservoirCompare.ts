@@ -0,0 +1,42 @@
+import { buildWhereUsedIndex } from './reservoirData';
+import type { ConnectionRole, ReservoirConfig } from './reservoirData';
+
+/** A connection name and how each compared reservoir uses it */
+export interface ComparedConnection {
+  key: string; // Normalized name, as in the where-used index
+  name: string;
+  left: ConnectionRole[]; // Empty when the left reservoir doesn't use the name
+  right: ConnectionRole[];
+}
+
+export interface ReservoirComparison {
+  shared: ComparedConnection[];
+  leftOnly: ComparedConnection[];
+  rightOnly: ComparedConnection[];
+}
+
+/**
+ * Compare the connections of two reservoirs by normalized name. A connection is
+ * shared when both use the name, whatever the role: one reservoir's outflow
+ * canal can be the other's inflow.
+ */
+export function compareReservoirs(left: ReservoirConfig, right: ReservoirConfig): ReservoirComparison {
+  const leftIndex = buildWhereUsedIndex([left]);
+  const rightIndex = buildWhereUsedIndex([right]);
+  const rolesOf = (index: typeof leftIndex, key: string) => index.get(key)?.references.map((r) => r.role) ?? [];
+
+  const connections = [...new Set([...leftIndex.keys(), ...rightIndex.keys()])]
+    .map((key) => ({
+      key,
+      name: (leftIndex.get(key) ?? rightIndex.get(key))!.names[0],
+      left: rolesOf(leftIndex, key),
+      right: rolesOf(rightIndex, key),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    shared: connections.filter((c) => c.left.length > 0 && c.right.length > 0),
+    leftOnly: connections.filter((c) => c.right.length === 0),
+    rightOnly: connections.filter((c) => c.left.length === 0),
+  };
+}
@@ -0,0 +1,278 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildWhereUsedIndex,
+  computeWaterBalance,
+  getAllReservoirs,
+  loadReservoirData,
+  normalizeReservoirConfig,
+  parseReservoirConfig,
+  slugifyConnectionName,
+} from './reservoirData';
+import type { LegacyReservoirConfig, ReservoirConfig } from './reservoirData';
+
+describe('reservoirData', () => {
+  const legacy: LegacyReservoirConfig = {
+    reservoir_id: 1,
+    reservoir_name: 'Test Lake',
+    inflow: 'North Creek, South Creek',
+    outflow: 'Spillway',
+    projects: 'Hydro Dam #1',
+  };
+
+  const v2: ReservoirConfig = {
+    reservoir_id: 1,
+    reservoir_name: 'Test Lake',
+    inflow: [
+      { id: 'north-creek', name: 'North Creek' },
+      { id: 'south-creek', name: 'South Creek' },
+    ],
+    outflow: [
+      {
+        id: 'spillway',
+        name: 'Spillway',
+        attributes: { capacity: 120 },
+        flow: { value: 3.5, unit: 'm3/s' },
+      },
+    ],
+    projects: [{ id: 'hydro-dam-1', name: 'Hydro Dam #1' }],
+  };
+
+  describe('slugifyConnectionName', () => {
+    it('should produce lowercase dash-separated ids', () => {
+      expect(slugifyConnectionName('Lake Fisheries Inc.')).toBe('lake-fisheries-inc');
+      expect(slugifyConnectionName('Hydro Dam #1')).toBe('hydro-dam-1');
+    });
+
+    it('should fall back for names without usable characters', () => {
+      expect(slugifyConnectionName('  ')).toBe('unnamed');
+    });
+  });
+
+  describe('normalizeReservoirConfig', () => {
+    it('should convert legacy strings into connections', () => {
+      const normalized = normalizeReservoirConfig(legacy);
+
+      expect(normalized.inflow).toEqual([
+        { id: 'north-creek', name: 'North Creek' },
+        { id: 'south-creek', name: 'South Creek' },
+      ]);
+      expect(normalized.projects).toEqual([{ id: 'hydro-dam-1', name: 'Hydro Dam #1' }]);
+    });
+
+    it('should treat an empty legacy string as no connections', () => {
+      expect(normalizeReservoirConfig({ ...legacy, outflow: '' }).outflow).toEqual([]);
+    });
+
+    it('should disambiguate duplicate legacy names', () => {
+      const normalized = normalizeReservoirConfig({ ...legacy, inflow: 'Creek, Creek' });
+
+      expect(normalized.inflow.map((c) => c.id)).toEqual(['creek', 'creek-2']);
+    });
+
+    it('should pass v2 records through unchanged', () => {
+      expect(normalizeReservoirConfig(v2)).toEqual(v2);
+    });
+
+    it('should treat a missing list as no connections', () => {
+      const { projects, ...withoutProjects } = v2;
+      const record = withoutProjects as unknown as ReservoirConfig;
+
+      expect(normalizeReservoirConfig(record).projects).toEqual([]);
+      expect(parseReservoirConfig(record).nodes).toHaveLength(1 + v2.inflow.length + v2.outflow.length);
+    });
+  });
+
+  describe('loadReservoirData', () => {
+    it('should accept a legacy bare array', () => {
+      expect(loadReservoirData([legacy])).toEqual([normalizeReservoirConfig(legacy)]);
+    });
+
+    it('should accept a v2 file wrapper', () => {
+      expect(loadReservoirData({ schema_version: 2, reservoirs: [v2] })).toEqual([v2]);
+    });
+
+    it('should load the bundled dataset', () => {
+      const reservoirs = getAllReservoirs();
+
+      expect(reservoirs.length).toBeGreaterThan(0);
+      expect(Array.isArray(reservoirs[0].inflow)).toBe(true);
+      // The demo data shows off the node types and link kinds
+      const great = parseReservoirConfig(reservoirs.find((r) => r.reservoir_id === 109)!);
+      expect(great.nodes).toContainEqual(expect.objectContaining({ label: 'Downstream Dam', type: 'dam' }));
+      const emerald = parseReservoirConfig(reservoirs.find((r) => r.reservoir_id === 101)!);
+      expect(emerald.links).toContainEqual(expect.objectContaining({ kind: 'canal', label: 'Valley Main Canal' }));
+    });
+
+    it('should refuse bundled data with validation errors', async () => {
+      vi.resetModules();
+      vi.doMock('./reservoirData.json', () => ({ default: [{ ...legacy, reservoir_name: 42 }] }));
+      const bundled = await import('./reservoirData');
+
+      expect(() => bundled.getAllReservoirs()).toThrow('invalid');
+      expect(() => bundled.getReservoirById(1)).toThrow('invalid');
+      vi.doUnmock('./reservoirData.json');
+    });
+  });
+
+  describe('parseReservoirConfig', () => {
+    it('should build the same graph from either schema version', () => {
+      const { attributes: _attributes, flow: _flow, ...spillway } = v2.outflow[0];
+      const v2WithoutAttributes = { ...v2, outflow: [spillway] };
+
+      expect(parseReservoirConfig(legacy)).toEqual(parseReservoirConfig(v2WithoutAttributes));
+    });
+
+    it('should derive node ids from connection ids, not list position', () => {
+      const reordered = { ...v2, inflow: [...v2.inflow].reverse() };
+      const ids = parseReservoirConfig(reordered).nodes.map((n) => n.id);
+
+      expect(ids).toContain('inflow_1_north-creek');
+      expect(ids).toContain('inflow_1_south-creek');
+    });
+
+    it('should link inflows into and outflows/projects out of the reservoir', () => {
+      const { links } = parseReservoirConfig(v2);
+
+      expect(links).toContainEqual({ source: 'inflow_1_north-creek', target: 'reservoir_1' });
+      expect(links).toContainEqual({
+        source: 'reservoir_1',
+        target: 'outflow_1_spillway',
+        flow: { value: 3.5, unit: 'm3/s' },
+      });
+      expect(links).toContainEqual({ source: 'reservoir_1', target: 'project_1_hydro-dam-1' });
+    });
+
+    it('should carry connection attributes onto nodes', () => {
+      const spillway = parseReservoirConfig(v2).nodes.find((n) => n.id === 'outflow_1_spillway');
+
+      expect(spillway?.attributes).toEqual({ capacity: 120 });
+    });
+
+    it('should give connections their declared type, keeping role-based ids and links', () => {
+      const typed = {
+        ...v2,
+        inflow: [{ id: 'gauge-7', name: 'Gauge 7', type: 'gauge' }],
+        projects: [{ id: 'works', name: 'Works', type: 'no-such-type' }],
+      };
+      const { nodes, links } = parseReservoirConfig(typed);
+
+      expect(nodes).toContainEqual({ id: 'inflow_1_gauge-7', label: 'Gauge 7', type: 'gauge' });
+      expect(nodes).toContainEqual({ id: 'project_1_works', label: 'Works', type: 'project' });
+      expect(links).toContainEqual({ source: 'inflow_1_gauge-7', target: 'reservoir_1' });
+    });
+
+    it('should carry link kinds and labels onto the links', () => {
+      const kinded = {
+        ...v2,
+        inflow: [{ id: 'creek', name: 'Creek', linkKind: 'natural_channel' }],
+        outflow: [{ id: 'canal', name: 'Canal', linkKind: 'canal', linkLabel: 'Main Canal' }],
+        projects: [{ id: 'works', name: 'Works', linkKind: 'aqueduct' }],
+      };
+      const { links } = parseReservoirConfig(kinded);
+
+      expect(links).toEqual([
+        { source: 'inflow_1_creek', target: 'reservoir_1', kind: 'natural_channel' },
+        { source: 'reservoir_1', target: 'outflow_1_canal', kind: 'canal', label: 'Main Canal' },
+        { source: 'reservoir_1', target: 'project_1_works' },
+      ]);
+    });
+  });
+
+  describe('computeWaterBalance', () => {
+    const balanced: ReservoirConfig = {
+      reservoir_id: 2,
+      reservoir_name: 'Balanced Lake',
+      inflow: [
+        { id: 'a', name: 'A', flow: { value: 6, unit: 'm3/s' } },
+        { id: 'b', name: 'B', flow: { value: 4000, unit: 'L/s' } },
+      ],
+      outflow: [{ id: 'c', name: 'C', flow: { value: 9, unit: 'm3/s' } }],
+      projects: [
+        { id: 'farm', name: 'Farm', flow: { value: 1, unit: 'm3/s' } },
+        { id: 'hydro', name: 'Hydro', flow: { value: 8, unit: 'm3/s' }, consumptive: false },
+      ],
+    };
+
+    it('should total inflows, outflows and consumptive use across units', () => {
+      const balance = computeWaterBalance(balanced);
+
+      expect(balance.totalIn).toBeCloseTo(10);
+      expect(balance.totalOut).toBeCloseTo(9);
+      expect(balance.consumptiveUse).toBeCloseTo(1);
+      expect(balance.netStorageChange).toBeCloseTo(0);
+      expect(balance.exceedsTolerance).toBe(false);
+      expect(balance.unmeasured).toEqual([]);
+    });
+
+    it('should flag an imbalance beyond the tolerance', () => {
+      const draining = { ...balanced, outflow: [{ id: 'c', name: 'C', flow: { value: 12, unit: 'm3/s' } }] };
+      const balance = computeWaterBalance(draining);
+
+      expect(balance.netStorageChange).toBeCloseTo(-3);
+      expect(balance.imbalanceRatio).toBeCloseTo(3 / 13);
+      expect(balance.exceedsTolerance).toBe(true);
+      expect(computeWaterBalance(draining, { tolerance: 0.5 }).exceedsTolerance).toBe(false);
+    });
+
+    it('should report connections without usable flows', () => {
+      const balance = computeWaterBalance(v2);
+
+      expect(balance.unmeasured).toEqual(['North Creek', 'South Creek', 'Hydro Dam #1']);
+      expect(balance.totalOut).toBeCloseTo(3.5);
+    });
+
+    it('should convert totals to the requested unit', () => {
+      const balance = computeWaterBalance(balanced, { unit: 'L/s' });
+
+      expect(balance.unit).toBe('L/s');
+      expect(balance.totalIn).toBeCloseTo(10000);
+    });
+
+    it('should treat a reservoir without flows as balanced', () => {
+      const balance = computeWaterBalance(normalizeReservoirConfig(legacy));
+
+      expect(balance.imbalanceRatio).toBe(0);
+      expect(balance.exceedsTolerance).toBe(false);
+    });
+  });
+
+  describe('buildWhereUsedIndex', () => {
+    const reservoirs = [
+      v2,
+      normalizeReservoirConfig({
+        reservoir_id: 2,
+        reservoir_name: 'Spillway',
+        inflow: 'Spillway (Upper), north creek',
+        outflow: '',
+        projects: 'North Creek',
+      }),
+    ];
+    const index = buildWhereUsedIndex(reservoirs);
+
+    it('should key entries by normalized connection name', () => {
+      expect([...index.keys()].sort()).toEqual(['hydro dam #1', 'north creek', 'south creek', 'spillway']);
+    });
+
+    it('should list every reservoir and role that uses a name', () => {
+      const entry = index.get('north creek')!;
+
+      expect(entry.names).toEqual(['North Creek', 'north creek']);
+      expect(entry.references).toEqual([
+        { reservoirId: 1, reservoirName: 'Test Lake', role: 'inflow', connectionId: 'north-creek' },
+        { reservoirId: 2, reservoirName: 'Spillway', role: 'inflow', connectionId: 'north-creek' },
+        { reservoirId: 2, reservoirName: 'Spillway', role: 'project', connectionId: 'north-creek' },
+      ]);
+      expect(entry.reservoirId).toBeUndefined();
+    });
+
+    it('should note names that are also reservoirs', () => {
+      const entry = index.get('spillway')!;
+
+      expect(entry.reservoirId).toBe(2);
+      expect(entry.references.map((r) => [r.reservoirId, r.role])).toEqual([
+        [1, 'outflow'],
+        [2, 'inflow'],
+      ]);
+    });
+  });
+});
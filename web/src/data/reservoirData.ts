@@ -1,17 +1,32 @@
 import reservoirDataJson from './reservoirData.json';
+import { hasValidationErrors, validateReservoirData } from './reservoirValidation';
+import type { ValidationIssue } from './reservoirValidation';
+import { convertFlow, isKnownFlowUnit, toCubicMetresPerSecond } from './flowUnits';
+import type { FlowQuantity } from './flowUnits';
+import { isConnectionNodeType } from './nodeTypes';
+import type { NodeType } from './nodeTypes';
+import { isLinkKind } from './linkKinds';
+import type { LinkKind } from './linkKinds';
+import { CURRENT_SCHEMA_VERSION } from './schema';
 
 // Define the interfaces for type safety
 export interface INode {
   id: string;
   label: string;
-  type: 'main_reservoir' | 'inflow' | 'outflow' | 'project';
+  type: NodeType; // A key of the node type registry
   fx?: number; // Optional fixed x position
   fy?: number; // Optional fixed y position
+  generation?: number; // Pedigree generation relative to the root (negative = upstream)
+  attributes?: ConnectionAttributes; // Attributes carried over from the connection data
+  storage?: StorageLevel; // Main reservoir nodes only: current storage volume
 }
 
 export interface ILink {
   source: string;
   target: string;
+  flow?: FlowQuantity; // Optional flow rate carried by the link
+  kind?: LinkKind; // A key of the link kind registry, e.g. 'canal'
+  label?: string; // Shown at the middle of the link
 }
 
 export interface IGraphData {
@@ -19,7 +34,52 @@ export interface IGraphData {
   links: ILink[];
 }
 
+/** Free-form attributes attached to a connection (e.g. capacity, operator) */
+export type ConnectionAttributes = Record<string, string | number | boolean>;
+
+/** A single inflow, outflow or project entry with a stable id */
+export interface ReservoirConnection {
+  id: string;
+  name: string;
+  attributes?: ConnectionAttributes;
+  flow?: FlowQuantity; // Inflow/outflow rate, or withdrawal rate for projects
+  consumptive?: boolean; // Projects only: false for pass-through use such as hydropower
+  type?: NodeType; // e.g. 'gauge'; defaults to the list it's in ('inflow', 'outflow' or 'project')
+  linkKind?: LinkKind; // What carries the water to or from the reservoir, e.g. 'canal'
+  linkLabel?: string; // Shown on the link, e.g. 'Main Canal'
+}
+
+/** Stored volume of a reservoir, e.g. { value: 42000, unit: 'ML' } */
+export interface StorageLevel {
+  value: number;
+  unit: string;
+}
+
+/**
+ * State of a reservoir from a given date until the next snapshot.
+ * Omitted fields keep the values of the base configuration.
+ */
+export interface ReservoirSnapshot {
+  date: string; // ISO date, YYYY-MM-DD
+  storage?: StorageLevel;
+  inflow?: ReservoirConnection[];
+  outflow?: ReservoirConnection[];
+  projects?: ReservoirConnection[];
+}
+
+/** Reservoir configuration in the current (v2) schema */
 export interface ReservoirConfig {
+  reservoir_id: number;
+  reservoir_name: string;
+  inflow: ReservoirConnection[];
+  outflow: ReservoirConnection[];
+  projects: ReservoirConnection[];
+  storage?: StorageLevel;
+  snapshots?: ReservoirSnapshot[];
+}
+
+/** Legacy (v1) reservoir configuration with comma-separated connection lists */
+export interface LegacyReservoirConfig {
   reservoir_id: number;
   reservoir_name: string;
   inflow: string;
@@ -27,10 +87,105 @@ export interface ReservoirConfig {
   projects: string;
 }
 
+/** A reservoir record as found in a data file, in either schema version */
+export type RawReservoirConfig = LegacyReservoirConfig | ReservoirConfig;
+
+/** Versioned data file wrapper used from schema v2 onwards */
+export interface ReservoirDataFileV2 {
+  schema_version: typeof CURRENT_SCHEMA_VERSION;
+  reservoirs: RawReservoirConfig[];
+}
+
+/** A legacy file is a bare array of v1 records */
+export type ReservoirDataFile = LegacyReservoirConfig[] | ReservoirDataFileV2;
+
+/**
+ * Derive a stable connection id from its name (lowercase, dash-separated)
+ */
+export function slugifyConnectionName(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'unnamed'
+  );
+}
+
+/**
+ * Normalize a reservoir or connection name for matching.
+ * Drops descriptive suffixes such as "(Standard Case)" and ignores case/whitespace.
+ */
+export function normalizeReservoirName(name: string): string {
+  return name
+    .replace(/\([^)]*\)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Id for a new connection named `name`, suffixed (-2, -3, ...) to avoid the taken ids
+ */
+export function uniqueConnectionId(name: string, taken: ReadonlySet<string>): string {
+  const baseId = slugifyConnectionName(name);
+  let id = baseId;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${baseId}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * Convert a legacy comma-separated list into connections.
+ * Ids come from the names, so reordering the list keeps them stable.
+ */
+function parseLegacyConnections(value: string): ReservoirConnection[] {
+  if (!value || !value.trim()) return [];
+
+  const seen = new Set<string>();
+  return value.split(',').map((s) => {
+    const name = s.trim();
+    const id = uniqueConnectionId(name, seen);
+    seen.add(id);
+    return { id, name };
+  });
+}
+
+function normalizeConnections(value: string | ReservoirConnection[] | undefined): ReservoirConnection[] {
+  // A missing list (invalid, but possible in unvalidated data) has no connections
+  return typeof value === 'string' ? parseLegacyConnections(value) : value ?? [];
+}
+
+/**
+ * Normalize a reservoir record of either schema version into the v2 shape
+ */
+export function normalizeReservoirConfig(config: RawReservoirConfig): ReservoirConfig {
+  // Storage and snapshots only exist in the v2 schema
+  const { storage, snapshots } = config as Partial<ReservoirConfig>;
+  return {
+    reservoir_id: config.reservoir_id,
+    reservoir_name: config.reservoir_name,
+    inflow: normalizeConnections(config.inflow),
+    outflow: normalizeConnections(config.outflow),
+    projects: normalizeConnections(config.projects),
+    ...(storage && { storage }),
+    ...(snapshots && { snapshots }),
+  };
+}
+
+/**
+ * Load reservoir configurations from a data file in either schema version
+ */
+export function loadReservoirData(file: ReservoirDataFile): ReservoirConfig[] {
+  const records = Array.isArray(file) ? file : file.reservoirs;
+  return records.map(normalizeReservoirConfig);
+}
+
 /**
  * Parse a reservoir configuration from JSON into graph data format
  */
-export function parseReservoirConfig(config: ReservoirConfig): IGraphData {
+export function parseReservoirConfig(rawConfig: RawReservoirConfig): IGraphData {
+  const config = normalizeReservoirConfig(rawConfig);
   const nodes: IGraphData['nodes'] = [];
   const links: IGraphData['links'] = [];
 
@@ -40,72 +195,179 @@ export function parseReservoirConfig(config: ReservoirConfig): IGraphData {
     id: mainNodeId,
     label: config.reservoir_name,
     type: 'main_reservoir',
+    ...(config.storage && { storage: config.storage }),
   });
 
-  // Parse and add inflow nodes
-  if (config.inflow && config.inflow.trim()) {
-    const inflows = config.inflow.split(',').map((s) => s.trim());
-    inflows.forEach((inflow, index) => {
-      const inflowId = `inflow_${config.reservoir_id}_${index}`;
+  const addConnections = (connections: ReservoirConnection[], role: ConnectionRole) => {
+    connections.forEach((connection) => {
+      // Ids follow the role, so changing a connection's type keeps its saved position
+      const nodeId = `${role}_${config.reservoir_id}_${connection.id}`;
       nodes.push({
-        id: inflowId,
-        label: inflow,
-        type: 'inflow',
+        id: nodeId,
+        label: connection.name,
+        type: isConnectionNodeType(connection.type) ? connection.type : role,
+        ...(connection.attributes && { attributes: connection.attributes }),
       });
+      // Inflows point into the reservoir; outflows and projects point away from it
       links.push({
-        source: inflowId,
-        target: mainNodeId,
+        ...(role === 'inflow'
+          ? { source: nodeId, target: mainNodeId }
+          : { source: mainNodeId, target: nodeId }),
+        ...(connection.flow && { flow: connection.flow }),
+        ...(isLinkKind(connection.linkKind) && { kind: connection.linkKind }),
+        ...(connection.linkLabel && { label: connection.linkLabel }),
       });
     });
-  }
+  };
 
-  // Parse and add outflow nodes
-  if (config.outflow && config.outflow.trim()) {
-    const outflows = config.outflow.split(',').map((s) => s.trim());
-    outflows.forEach((outflow, index) => {
-      const outflowId = `outflow_${config.reservoir_id}_${index}`;
-      nodes.push({
-        id: outflowId,
-        label: outflow,
-        type: 'outflow',
-      });
-      links.push({
-        source: mainNodeId,
-        target: outflowId,
-      });
-    });
-  }
+  addConnections(config.inflow, 'inflow');
+  addConnections(config.outflow, 'outflow');
+  addConnections(config.projects, 'project');
 
-  // Parse and add project nodes
-  if (config.projects && config.projects.trim()) {
-    const projects = config.projects.split(',').map((s) => s.trim());
-    projects.forEach((project, index) => {
-      const projectId = `project_${config.reservoir_id}_${index}`;
-      nodes.push({
-        id: projectId,
-        label: project,
-        type: 'project',
-      });
-      links.push({
-        source: mainNodeId,
-        target: projectId,
+  return { nodes, links };
+}
+
+export interface WaterBalance {
+  unit: string;
+  totalIn: number;
+  totalOut: number;
+  consumptiveUse: number;
+  netStorageChange: number; // Positive when the reservoir is filling
+  imbalanceRatio: number; // |net| relative to the larger of the in/out totals
+  exceedsTolerance: boolean;
+  unmeasured: string[]; // Connections left out because they have no usable flow
+}
+
+export interface WaterBalanceOptions {
+  unit?: string; // Display unit for the totals (default m3/s)
+  tolerance?: number; // Imbalance ratio above which to warn (default 5%)
+}
+
+export const DEFAULT_BALANCE_TOLERANCE = 0.05;
+
+/**
+ * Compute the water balance of a reservoir from its connection flows.
+ * Net storage change = inflows - outflows - consumptive project use.
+ */
+export function computeWaterBalance(
+  config: ReservoirConfig,
+  { unit = 'm3/s', tolerance = DEFAULT_BALANCE_TOLERANCE }: WaterBalanceOptions = {}
+): WaterBalance {
+  const unmeasured: string[] = [];
+
+  const sum = (connections: ReservoirConnection[]) =>
+    connections.reduce((total, connection) => {
+      const value = connection.flow ? toCubicMetresPerSecond(connection.flow) : undefined;
+      if (value === undefined) {
+        unmeasured.push(connection.name);
+        return total;
+      }
+      return total + value;
+    }, 0);
+
+  const totalIn = sum(config.inflow);
+  const totalOut = sum(config.outflow);
+  const consumptiveUse = sum(config.projects.filter((p) => p.consumptive !== false));
+  const netStorageChange = totalIn - totalOut - consumptiveUse;
+
+  const scale = Math.max(totalIn, totalOut + consumptiveUse);
+  const imbalanceRatio = scale > 0 ? Math.abs(netStorageChange) / scale : 0;
+
+  const displayUnit = isKnownFlowUnit(unit) ? unit : 'm3/s';
+  const toUnit = (value: number) => convertFlow({ value, unit: 'm3/s' }, displayUnit)!.value;
+
+  return {
+    unit: displayUnit,
+    totalIn: toUnit(totalIn),
+    totalOut: toUnit(totalOut),
+    consumptiveUse: toUnit(consumptiveUse),
+    netStorageChange: toUnit(netStorageChange),
+    imbalanceRatio,
+    exceedsTolerance: imbalanceRatio > tolerance,
+    unmeasured,
+  };
+}
+
+/** How a reservoir uses a connection */
+export type ConnectionRole = 'inflow' | 'outflow' | 'project';
+
+/** One reservoir's use of a connection name */
+export interface WhereUsedReference {
+  reservoirId: number;
+  reservoirName: string;
+  role: ConnectionRole;
+  connectionId: string;
+}
+
+/** Everything that references one (normalized) connection name */
+export interface WhereUsedEntry {
+  key: string; // The normalized name
+  names: string[]; // Spellings as they appear in the data, first seen first
+  references: WhereUsedReference[];
+  reservoirId?: number; // Set when the name is also a reservoir in the dataset
+}
+
+/**
+ * Reverse index from normalized connection name to every reservoir that uses it
+ * as an inflow, outflow or project, e.g. all reservoirs a stream feeds.
+ */
+export function buildWhereUsedIndex(reservoirs: ReservoirConfig[]): Map<string, WhereUsedEntry> {
+  const index = new Map<string, WhereUsedEntry>();
+  const fields: [ConnectionRole, 'inflow' | 'outflow' | 'projects'][] = [
+    ['inflow', 'inflow'],
+    ['outflow', 'outflow'],
+    ['project', 'projects'],
+  ];
+
+  reservoirs.forEach((reservoir) => {
+    fields.forEach(([role, field]) => {
+      reservoir[field].forEach((connection) => {
+        const key = normalizeReservoirName(connection.name);
+        let entry = index.get(key);
+        if (!entry) {
+          entry = { key, names: [], references: [] };
+          index.set(key, entry);
+        }
+        if (!entry.names.includes(connection.name)) entry.names.push(connection.name);
+        entry.references.push({
+          reservoirId: reservoir.reservoir_id,
+          reservoirName: reservoir.reservoir_name,
+          role,
+          connectionId: connection.id,
+        });
       });
     });
-  }
+  });
 
-  return { nodes, links };
+  reservoirs.forEach((reservoir) => {
+    const entry = index.get(normalizeReservoirName(reservoir.reservoir_name));
+    if (entry && entry.reservoirId === undefined) entry.reservoirId = reservoir.reservoir_id;
+  });
+
+  return index;
 }
 
 /**
- * Get all available reservoir configurations
+ * Get all available reservoir configurations. Throws if the bundled data has
+ * validation errors; getReservoirDiagnostics lists them.
  */
 export function getAllReservoirs(): ReservoirConfig[] {
-  return reservoirDataJson as ReservoirConfig[];
+  if (hasValidationErrors(getReservoirDiagnostics())) {
+    throw new Error('The bundled reservoir data is invalid; see diagnostics');
+  }
+  return loadReservoirData(reservoirDataJson as ReservoirDataFile);
+}
+
+/**
+ * Validate the bundled reservoir data and return any errors or warnings
+ */
+export function getReservoirDiagnostics(): ValidationIssue[] {
+  return validateReservoirData(reservoirDataJson);
 }
 
 /**
  * Get a specific reservoir configuration by ID
  */
 export function getReservoirById(id: number): ReservoirConfig | undefined {
-  return reservoirDataJson.find((r) => r.reservoir_id === id);
+  return getAllReservoirs().find((r) => r.reservoir_id === id);
 }
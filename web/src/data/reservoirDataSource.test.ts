@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createBundledDataSource, createHttpDataSource } from './reservoirDataSource';
+import { getAllReservoirs } from './reservoirData';
+
+describe('reservoirDataSource', () => {
+  const record = {
+    reservoir_id: 7,
+    reservoir_name: 'Test Lake',
+    inflow: 'North Creek',
+    outflow: '',
+    projects: '',
+  };
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, statusText: status === 200 ? 'OK' : 'Error' });
+
+  describe('createBundledDataSource', () => {
+    it('should list the bundled reservoirs', async () => {
+      await expect(createBundledDataSource().list()).resolves.toEqual(getAllReservoirs());
+    });
+
+    it('should get a reservoir by id', async () => {
+      const source = createBundledDataSource();
+
+      expect((await source.get(101))?.reservoir_id).toBe(101);
+      expect(await source.get(-1)).toBeUndefined();
+    });
+
+    it('should refuse data with validation errors, keeping the diagnostics', async () => {
+      const source = createBundledDataSource([{ ...record, reservoir_name: 42 }]);
+
+      await expect(source.list()).rejects.toThrow('invalid');
+      expect(source.diagnostics()).toContainEqual(expect.objectContaining({ severity: 'error' }));
+    });
+  });
+
+  describe('createHttpDataSource', () => {
+    it('should list reservoirs from the endpoint', async () => {
+      const fetchFn = vi.fn().mockResolvedValue(jsonResponse([record]));
+      const source = createHttpDataSource('http://localhost:4010/', fetchFn);
+
+      const reservoirs = await source.list();
+
+      expect(fetchFn).toHaveBeenCalledWith('http://localhost:4010/reservoirs', expect.anything());
+      expect(reservoirs[0].inflow).toEqual([{ id: 'north-creek', name: 'North Creek' }]);
+      expect(source.diagnostics()).toEqual([]);
+    });
+
+    it('should get a single reservoir and return undefined on 404', async () => {
+      const fetchFn = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse(record))
+        .mockResolvedValueOnce(jsonResponse({ error: 'Not found' }, 404));
+      const source = createHttpDataSource('http://localhost:4010', fetchFn);
+
+      expect((await source.get(7))?.reservoir_name).toBe('Test Lake');
+      expect(await source.get(8)).toBeUndefined();
+      expect(fetchFn).toHaveBeenLastCalledWith('http://localhost:4010/reservoirs/8', expect.anything());
+    });
+
+    it('should reject on server errors', async () => {
+      const fetchFn = vi.fn().mockResolvedValue(jsonResponse({}, 500));
+      const source = createHttpDataSource('http://localhost:4010', fetchFn);
+
+      await expect(source.list()).rejects.toThrow('500');
+    });
+
+    it('should reject invalid data and keep the diagnostics', async () => {
+      const fetchFn = vi.fn().mockResolvedValue(jsonResponse([record, record]));
+      const source = createHttpDataSource('http://localhost:4010', fetchFn);
+
+      await expect(source.list()).rejects.toThrow('invalid');
+      expect(source.diagnostics()).toContainEqual(
+        expect.objectContaining({ severity: 'error', reservoirId: 7, field: 'reservoir_id' })
+      );
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import reservoirDataJson from './reservoirData.json';
+import { loadReservoirData, normalizeReservoirConfig } from './reservoirData';
+import type { RawReservoirConfig, ReservoirConfig, ReservoirDataFile } from './reservoirData';
+import { hasValidationErrors, validateReservoirData } from './reservoirValidation';
+import type { ValidationIssue } from './reservoirValidation';
+
+/**
+ * Where reservoir configurations come from. Implementations load asynchronously
+ * so the app can show loading and error states.
+ */
+export interface ReservoirDataSource {
+  /** Short description shown in the UI, e.g. "Bundled data" */
+  readonly name: string;
+  list(): Promise<ReservoirConfig[]>;
+  get(id: number): Promise<ReservoirConfig | undefined>;
+  /** Validation issues found by the most recent list() call */
+  diagnostics(): ValidationIssue[];
+}
+
+/**
+ * Data source backed by the JSON bundled into the build (or `file`, e.g. in tests).
+ * Like the HTTP source, it refuses data with validation errors.
+ */
+export function createBundledDataSource(file: unknown = reservoirDataJson): ReservoirDataSource {
+  const issues = validateReservoirData(file);
+
+  const load = () => {
+    if (hasValidationErrors(issues)) {
+      throw new Error('The bundled reservoir data is invalid; see diagnostics');
+    }
+    return loadReservoirData(file as ReservoirDataFile);
+  };
+
+  return {
+    name: 'Bundled data',
+    list: async () => load(),
+    get: async (id) => load().find((r) => r.reservoir_id === id),
+    diagnostics: () => issues,
+  };
+}
+
+/**
+ * Data source backed by an HTTP API.
+ * Expects `GET {baseUrl}/reservoirs` to return a data file (legacy array or v2 wrapper)
+ * and `GET {baseUrl}/reservoirs/{id}` to return a single record, or 404.
+ */
+export function createHttpDataSource(
+  baseUrl: string,
+  fetchFn: typeof fetch = (...args) => fetch(...args)
+): ReservoirDataSource {
+  const root = baseUrl.replace(/\/+$/, '');
+  let issues: ValidationIssue[] = [];
+
+  const request = async (path: string) => {
+    const response = await fetchFn(`${root}${path}`, { headers: { Accept: 'application/json' } });
+    if (response.status === 404) return undefined;
+    if (!response.ok) {
+      throw new Error(`Request to ${root}${path} failed: ${response.status} ${response.statusText}`);
+    }
+    return response.json() as Promise<unknown>;
+  };
+
+  return {
+    name: root,
+    list: async () => {
+      const data = await request('/reservoirs');
+      issues = validateReservoirData(data);
+      if (hasValidationErrors(issues)) {
+        throw new Error(`Reservoir data from ${root} is invalid; see diagnostics`);
+      }
+      return loadReservoirData(data as ReservoirDataFile);
+    },
+    get: async (id) => {
+      const record = await request(`/reservoirs/${id}`);
+      if (record === undefined) return undefined;
+      const recordIssues = validateReservoirData([record]);
+      if (hasValidationErrors(recordIssues)) {
+        throw new Error(`Reservoir ${id} from ${root} is invalid`);
+      }
+      return normalizeReservoirConfig(record as RawReservoirConfig);
+    },
+    diagnostics: () => issues,
+  };
+}
+
+/**
+ * Pick the data source from the environment: the HTTP API when
+ * VITE_RESERVOIR_API_URL is set, the bundled JSON otherwise
+ */
+export function getDefaultDataSource(): ReservoirDataSource {
+  const apiUrl = import.meta.env.VITE_RESERVOIR_API_URL;
+  return apiUrl ? createHttpDataSource(apiUrl) : createBundledDataSource();
+}
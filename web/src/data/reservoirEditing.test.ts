@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { applyReservoirEdit, nextReservoirId, replaceReservoir, serializeReservoirData } from './reservoirEditing';
+import { loadReservoirData } from './reservoirData';
+import type { ReservoirConfig, ReservoirDataFile } from './reservoirData';
+
+describe('reservoirEditing', () => {
+  const reservoirs: ReservoirConfig[] = [
+    {
+      reservoir_id: 1,
+      reservoir_name: 'Upper Lake',
+      inflow: [
+        { id: 'stone-creek', name: 'Stone Creek' },
+        { id: 'snow-melt', name: 'Snow Melt' },
+        { id: 'side-creek', name: 'Side Creek' },
+      ],
+      outflow: [],
+      projects: [],
+    },
+    {
+      reservoir_id: 4,
+      reservoir_name: 'Lower Lake',
+      inflow: [],
+      outflow: [{ id: 'sea', name: 'Sea' }],
+      projects: [],
+    },
+  ];
+
+  const inflowNames = (data: ReservoirConfig[]) => data[0].inflow.map((c) => c.name);
+
+  describe('applyReservoirEdit', () => {
+    it('should add a connection with a unique id', () => {
+      const next = applyReservoirEdit(reservoirs, {
+        type: 'add-connection',
+        reservoirId: 1,
+        field: 'inflow',
+        name: 'Stone Creek',
+      });
+
+      expect(next[0].inflow.at(-1)).toEqual({ id: 'stone-creek-2', name: 'Stone Creek' });
+      expect(reservoirs[0].inflow).toHaveLength(3);
+    });
+
+    it('should rename a connection and keep its id', () => {
+      const next = applyReservoirEdit(reservoirs, {
+        type: 'rename-connection',
+        reservoirId: 1,
+        field: 'inflow',
+        connectionId: 'snow-melt',
+        name: 'Glacier Melt',
+      });
+
+      expect(next[0].inflow[1]).toEqual({ id: 'snow-melt', name: 'Glacier Melt' });
+    });
+
+    it('should remove a connection', () => {
+      const next = applyReservoirEdit(reservoirs, {
+        type: 'remove-connection',
+        reservoirId: 1,
+        field: 'inflow',
+        connectionId: 'stone-creek',
+      });
+
+      expect(inflowNames(next)).toEqual(['Snow Melt', 'Side Creek']);
+    });
+
+    it('should reorder a connection, stopping at either end', () => {
+      const move = (offset: number) =>
+        inflowNames(
+          applyReservoirEdit(reservoirs, {
+            type: 'move-connection',
+            reservoirId: 1,
+            field: 'inflow',
+            connectionId: 'snow-melt',
+            offset,
+          })
+        );
+
+      expect(move(-1)).toEqual(['Snow Melt', 'Stone Creek', 'Side Creek']);
+      expect(move(1)).toEqual(['Stone Creek', 'Side Creek', 'Snow Melt']);
+      expect(move(5)).toEqual(['Stone Creek', 'Side Creek', 'Snow Melt']);
+    });
+
+    it('should rename and create reservoirs', () => {
+      const renamed = applyReservoirEdit(reservoirs, { type: 'rename-reservoir', reservoirId: 4, name: 'Bottom Lake' });
+      expect(renamed[1].reservoir_name).toBe('Bottom Lake');
+      expect(renamed[0]).toBe(reservoirs[0]);
+
+      const created = applyReservoirEdit(reservoirs, { type: 'create-reservoir', reservoirId: 5, name: 'New Lake' });
+      expect(created[2]).toEqual({ reservoir_id: 5, reservoir_name: 'New Lake', inflow: [], outflow: [], projects: [] });
+    });
+
+    it('should ignore edits to missing reservoirs and connections', () => {
+      expect(
+        applyReservoirEdit(reservoirs, { type: 'create-reservoir', reservoirId: 1, name: 'Duplicate' })
+      ).toBe(reservoirs);
+      expect(
+        applyReservoirEdit(reservoirs, {
+          type: 'remove-connection',
+          reservoirId: 1,
+          field: 'outflow',
+          connectionId: 'missing',
+        })
+      ).toEqual(reservoirs);
+    });
+  });
+
+  describe('nextReservoirId', () => {
+    it('should return one more than the largest id', () => {
+      expect(nextReservoirId(reservoirs)).toBe(5);
+      expect(nextReservoirId([])).toBe(1);
+    });
+  });
+
+  describe('replaceReservoir', () => {
+    it('should replace, re-add or remove a reservoir', () => {
+      const renamed = { ...reservoirs[1], reservoir_name: 'Bottom Lake' };
+
+      expect(replaceReservoir(reservoirs, 4, renamed)).toEqual([reservoirs[0], renamed]);
+      expect(replaceReservoir([reservoirs[0]], 4, reservoirs[1])).toEqual(reservoirs);
+      expect(replaceReservoir(reservoirs, 4, undefined)).toEqual([reservoirs[0]]);
+    });
+  });
+
+  describe('serializeReservoirData', () => {
+    it('should write a v2 data file that loads back unchanged', () => {
+      const text = serializeReservoirData(reservoirs);
+      const file = JSON.parse(text) as ReservoirDataFile;
+
+      expect(file).toMatchObject({ schema_version: 2 });
+      expect(loadReservoirData(file)).toEqual(reservoirs);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { uniqueConnectionId } from './reservoirData';
+import { CURRENT_SCHEMA_VERSION } from './schema';
+import type { ReservoirConfig, ReservoirDataFileV2 } from './reservoirData';
+
+export type ConnectionField = 'inflow' | 'outflow' | 'projects';
+
+/** One change to the dataset, as made in the editor */
+export type ReservoirEdit =
+  | { type: 'add-connection'; reservoirId: number; field: ConnectionField; name: string }
+  | { type: 'rename-connection'; reservoirId: number; field: ConnectionField; connectionId: string; name: string }
+  | { type: 'remove-connection'; reservoirId: number; field: ConnectionField; connectionId: string }
+  | { type: 'move-connection'; reservoirId: number; field: ConnectionField; connectionId: string; offset: number }
+  | { type: 'rename-reservoir'; reservoirId: number; name: string }
+  | { type: 'create-reservoir'; reservoirId: number; name: string };
+
+/**
+ * Smallest reservoir id above every existing one
+ */
+export function nextReservoirId(reservoirs: ReservoirConfig[]): number {
+  return Math.max(0, ...reservoirs.map((r) => r.reservoir_id)) + 1;
+}
+
+/**
+ * Move an item by `offset` places, clamped to the ends of the list
+ */
+function moveItem<T>(items: T[], index: number, offset: number): T[] {
+  const target = Math.min(Math.max(index + offset, 0), items.length - 1);
+  const next = [...items];
+  const [item] = next.splice(index, 1);
+  next.splice(target, 0, item);
+  return next;
+}
+
+/**
+ * Apply an edit, returning a new dataset; untouched reservoirs keep their identity.
+ * Renames keep connection ids, so dragged positions and links survive them.
+ * Edits that refer to a missing reservoir or connection change nothing.
+ */
+export function applyReservoirEdit(reservoirs: ReservoirConfig[], edit: ReservoirEdit): ReservoirConfig[] {
+  if (edit.type === 'create-reservoir') {
+    if (reservoirs.some((r) => r.reservoir_id === edit.reservoirId)) return reservoirs;
+    return [
+      ...reservoirs,
+      { reservoir_id: edit.reservoirId, reservoir_name: edit.name, inflow: [], outflow: [], projects: [] },
+    ];
+  }
+
+  return reservoirs.map((reservoir) => {
+    if (reservoir.reservoir_id !== edit.reservoirId) return reservoir;
+
+    if (edit.type === 'rename-reservoir') {
+      return { ...reservoir, reservoir_name: edit.name };
+    }
+
+    const connections = reservoir[edit.field];
+    if (edit.type === 'add-connection') {
+      const id = uniqueConnectionId(edit.name, new Set(connections.map((c) => c.id)));
+      return { ...reservoir, [edit.field]: [...connections, { id, name: edit.name }] };
+    }
+
+    const index = connections.findIndex((c) => c.id === edit.connectionId);
+    if (index < 0) return reservoir;
+
+    switch (edit.type) {
+      case 'rename-connection':
+        return {
+          ...reservoir,
+          [edit.field]: connections.map((c, i) => (i === index ? { ...c, name: edit.name } : c)),
+        };
+      case 'remove-connection':
+        return { ...reservoir, [edit.field]: connections.filter((_, i) => i !== index) };
+      case 'move-connection':
+        return { ...reservoir, [edit.field]: moveItem(connections, index, edit.offset) };
+    }
+  });
+}
+
+/**
+ * Put a reservoir's configuration back as it was: replaced, re-added at the end,
+ * or removed when `config` is undefined (it didn't exist)
+ */
+export function replaceReservoir(
+  reservoirs: ReservoirConfig[],
+  reservoirId: number,
+  config: ReservoirConfig | undefined
+): ReservoirConfig[] {
+  const others = reservoirs.filter((r) => r.reservoir_id !== reservoirId);
+  if (!config) return others;
+  return reservoirs.some((r) => r.reservoir_id === reservoirId)
+    ? reservoirs.map((r) => (r.reservoir_id === reservoirId ? config : r))
+    : [...reservoirs, config];
+}
+
+/**
+ * The dataset as a v2 data file, formatted like the bundled reservoirData.json
+ */
+export function serializeReservoirData(reservoirs: ReservoirConfig[]): string {
+  const file: ReservoirDataFileV2 = { schema_version: CURRENT_SCHEMA_VERSION, reservoirs };
+  return `${JSON.stringify(file, null, 4)}\n`;
+}
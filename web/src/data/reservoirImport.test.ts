@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectImportFormat,
+  findConflictingIds,
+  mergeReservoirs,
+  parseImportText,
+  readImportFile,
+} from './reservoirImport';
+import { normalizeReservoirConfig } from './reservoirData';
+
+describe('reservoirImport', () => {
+  const lake = (id: number, name: string) =>
+    normalizeReservoirConfig({ reservoir_id: id, reservoir_name: name, inflow: '', outflow: '', projects: '' });
+
+  describe('detectImportFormat', () => {
+    it('should detect JSON and CSV by extension', () => {
+      expect(detectImportFormat('data.JSON')).toBe('json');
+      expect(detectImportFormat('export.csv')).toBe('csv');
+      expect(detectImportFormat('notes.txt')).toBeUndefined();
+    });
+  });
+
+  describe('parseImportText', () => {
+    it('should parse a CSV file with quoted connection lists', () => {
+      const csv = [
+        'reservoir_id,reservoir_name,inflow,outflow,projects',
+        '201,North Lake,"Creek A, Creek B",Spillway,',
+      ].join('\n');
+
+      const result = parseImportText('lakes.csv', csv);
+
+      expect(result.issues).toEqual([]);
+      expect(result.reservoirs).toHaveLength(1);
+      expect(result.reservoirs[0].inflow.map((c) => c.name)).toEqual(['Creek A', 'Creek B']);
+      expect(result.reservoirs[0].projects).toEqual([]);
+    });
+
+    it('should report missing CSV columns', () => {
+      const result = parseImportText('lakes.csv', 'reservoir_id,reservoir_name\n1,Lake');
+
+      expect(result.reservoirs).toEqual([]);
+      expect(result.issues[0].message).toContain('inflow');
+    });
+
+    it('should parse a v2 JSON file', () => {
+      const json = JSON.stringify({
+        schema_version: 2,
+        reservoirs: [
+          { reservoir_id: 1, reservoir_name: 'Lake', inflow: [], outflow: [], projects: [] },
+        ],
+      });
+
+      expect(parseImportText('lakes.json', json).reservoirs).toHaveLength(1);
+    });
+
+    it('should reject malformed JSON', () => {
+      const result = parseImportText('lakes.json', '{ not json');
+
+      expect(result.reservoirs).toEqual([]);
+      expect(result.issues[0].severity).toBe('error');
+    });
+
+    it('should run validation and withhold reservoirs when there are errors', () => {
+      const csv = [
+        'reservoir_id,reservoir_name,inflow,outflow,projects',
+        '1,Lake A,,,',
+        '1,Lake B,,,',
+      ].join('\n');
+
+      const result = parseImportText('lakes.csv', csv);
+
+      expect(result.reservoirs).toEqual([]);
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({ severity: 'error', reservoirId: 1, field: 'reservoir_id' })
+      );
+    });
+
+    it('should keep reservoirs when there are only warnings', () => {
+      const csv = 'reservoir_id,reservoir_name,inflow,outflow,projects\n1,Lake,"Creek,",,';
+
+      const result = parseImportText('lakes.csv', csv);
+
+      expect(result.reservoirs).toHaveLength(1);
+      expect(result.issues).toHaveLength(1);
+    });
+  });
+
+  describe('readImportFile', () => {
+    it('should report a file that cannot be read as an error', async () => {
+      const file = new File(['[]'], 'gone.json');
+      file.text = () => Promise.reject(new Error('NotReadableError'));
+
+      const result = await readImportFile(file);
+
+      expect(result.fileName).toBe('gone.json');
+      expect(result.reservoirs).toEqual([]);
+      expect(result.issues).toEqual([{ severity: 'error', message: 'Could not read file: NotReadableError' }]);
+    });
+  });
+
+  describe('mergeReservoirs', () => {
+    const existing = [lake(1, 'Old One'), lake(2, 'Old Two')];
+    const incoming = [lake(2, 'New Two'), lake(3, 'New Three')];
+
+    it('should list conflicting ids', () => {
+      expect(findConflictingIds(existing, incoming)).toEqual([2]);
+    });
+
+    it('should overwrite conflicts in place and append new reservoirs', () => {
+      const merged = mergeReservoirs(existing, incoming, 'overwrite');
+
+      expect(merged.map((r) => r.reservoir_name)).toEqual(['Old One', 'New Two', 'New Three']);
+    });
+
+    it('should keep existing reservoirs on conflict', () => {
+      const merged = mergeReservoirs(existing, incoming, 'keep');
+
+      expect(merged.map((r) => r.reservoir_name)).toEqual(['Old One', 'Old Two', 'New Three']);
+    });
+  });
+});
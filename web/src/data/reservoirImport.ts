@@ -0,0 +1,131 @@
+import * as d3 from 'd3';
+import { loadReservoirData } from './reservoirData';
+import type { ReservoirConfig, ReservoirDataFile } from './reservoirData';
+import { hasValidationErrors, validateReservoirData } from './reservoirValidation';
+import type { ValidationIssue } from './reservoirValidation';
+
+export type ImportFormat = 'json' | 'csv';
+
+/** How to resolve reservoir ids that exist in both the current and the imported data */
+export type ConflictResolution = 'overwrite' | 'keep';
+
+export interface ImportResult {
+  fileName: string;
+  reservoirs: ReservoirConfig[]; // Empty when the file has errors
+  issues: ValidationIssue[];
+}
+
+const CSV_COLUMNS = ['reservoir_id', 'reservoir_name', 'inflow', 'outflow', 'projects'] as const;
+
+/**
+ * Work out the import format from a file name
+ */
+export function detectImportFormat(fileName: string): ImportFormat | undefined {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  return undefined;
+}
+
+/**
+ * Parse CSV text into legacy reservoir records.
+ * Expects a header row with reservoir_id, reservoir_name, inflow, outflow and projects;
+ * connection lists are comma-separated inside quoted fields.
+ */
+export function parseReservoirCsv(text: string): { records: unknown[]; issues: ValidationIssue[] } {
+  const rows = d3.csvParse(text);
+  const missing = CSV_COLUMNS.filter((column) => !rows.columns.includes(column));
+  if (missing.length > 0) {
+    return {
+      records: [],
+      issues: [{ severity: 'error', message: `Missing CSV column(s): ${missing.join(', ')}` }],
+    };
+  }
+
+  const records = rows.map((row) => ({
+    reservoir_id: row.reservoir_id?.trim() ? Number(row.reservoir_id) : undefined,
+    reservoir_name: row.reservoir_name ?? '',
+    inflow: row.inflow ?? '',
+    outflow: row.outflow ?? '',
+    projects: row.projects ?? '',
+  }));
+  return { records, issues: [] };
+}
+
+/**
+ * Parse and validate the text of an imported file
+ */
+export function parseImportText(fileName: string, text: string): ImportResult {
+  const format = detectImportFormat(fileName);
+  const fail = (message: string): ImportResult => ({
+    fileName,
+    reservoirs: [],
+    issues: [{ severity: 'error', message }],
+  });
+
+  let data: unknown;
+  if (format === 'json') {
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      return fail(`Invalid JSON: ${(error as Error).message}`);
+    }
+  } else if (format === 'csv') {
+    const { records, issues } = parseReservoirCsv(text);
+    if (issues.length > 0) return { fileName, reservoirs: [], issues };
+    data = records;
+  } else {
+    return fail('Unsupported file type; expected .json or .csv');
+  }
+
+  const issues = validateReservoirData(data);
+  return {
+    fileName,
+    reservoirs: hasValidationErrors(issues) ? [] : loadReservoirData(data as ReservoirDataFile),
+    issues,
+  };
+}
+
+/**
+ * Read, parse and validate an imported file. A file that can't be read (e.g. removed
+ * since it was picked) is reported as an error rather than rejecting.
+ */
+export async function readImportFile(file: File): Promise<ImportResult> {
+  let text: string;
+  try {
+    text = await file.text();
+  } catch (error) {
+    return {
+      fileName: file.name,
+      reservoirs: [],
+      issues: [{ severity: 'error', message: `Could not read file: ${(error as Error).message}` }],
+    };
+  }
+  return parseImportText(file.name, text);
+}
+
+/**
+ * Ids present in both the existing and the incoming reservoirs
+ */
+export function findConflictingIds(existing: ReservoirConfig[], incoming: ReservoirConfig[]): number[] {
+  const existingIds = new Set(existing.map((r) => r.reservoir_id));
+  return incoming.map((r) => r.reservoir_id).filter((id) => existingIds.has(id));
+}
+
+/**
+ * Merge incoming reservoirs into the existing list.
+ * Conflicting ids are either overwritten in place or left untouched; new ids are appended.
+ */
+export function mergeReservoirs(
+  existing: ReservoirConfig[],
+  incoming: ReservoirConfig[],
+  resolution: ConflictResolution
+): ReservoirConfig[] {
+  const incomingById = new Map(incoming.map((r) => [r.reservoir_id, r]));
+  const existingIds = new Set(existing.map((r) => r.reservoir_id));
+
+  const merged = existing.map((r) =>
+    resolution === 'overwrite' ? incomingById.get(r.reservoir_id) ?? r : r
+  );
+  return [...merged, ...incoming.filter((r) => !existingIds.has(r.reservoir_id))];
+}
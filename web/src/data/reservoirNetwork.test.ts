@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDatasetNetwork,
+  buildReservoirNetwork,
+  findNameReferences,
+  listConnections,
+  normalizeReservoirName,
+} from './reservoirNetwork';
+import { normalizeReservoirConfig } from './reservoirData';
+import type { LegacyReservoirConfig } from './reservoirData';
+
+describe('reservoirNetwork', () => {
+  const legacyReservoirs: LegacyReservoirConfig[] = [
+    {
+      reservoir_id: 1,
+      reservoir_name: 'Upper Lake (Headwaters)',
+      inflow: 'Snow Melt',
+      outflow: 'Middle Lake',
+      projects: '',
+    },
+    {
+      reservoir_id: 2,
+      reservoir_name: 'Middle Lake',
+      inflow: 'Upper Lake, Side Creek',
+      outflow: 'Lower Lake',
+      projects: 'Hydro Plant',
+    },
+    {
+      reservoir_id: 3,
+      reservoir_name: 'Lower Lake',
+      inflow: 'Middle Lake',
+      outflow: 'Sea',
+      projects: '',
+    },
+  ];
+  const reservoirs = legacyReservoirs.map(normalizeReservoirConfig);
+
+  describe('normalizeReservoirName', () => {
+    it('should ignore case, whitespace and parenthetical suffixes', () => {
+      expect(normalizeReservoirName('  Emerald   Lake (Standard Case) ')).toBe('emerald lake');
+    });
+  });
+
+  describe('buildReservoirNetwork', () => {
+    it('should match the single-reservoir graph at zero generations', () => {
+      const graph = buildReservoirNetwork(reservoirs, 2, 0);
+
+      expect(graph.nodes.filter((n) => n.type === 'main_reservoir')).toHaveLength(1);
+      expect(graph.nodes.map((n) => n.label)).toContain('Upper Lake');
+      expect(graph.nodes.map((n) => n.label)).toContain('Lower Lake');
+    });
+
+    it('should replace matched connections with reservoir-to-reservoir links', () => {
+      const graph = buildReservoirNetwork(reservoirs, 2, 1);
+
+      expect(graph.nodes.filter((n) => n.type === 'main_reservoir').map((n) => n.id)).toEqual([
+        'reservoir_1',
+        'reservoir_2',
+        'reservoir_3',
+      ]);
+      expect(graph.nodes.map((n) => n.label)).not.toContain('Upper Lake');
+      expect(graph.links).toContainEqual({ source: 'reservoir_1', target: 'reservoir_2' });
+      expect(graph.links).toContainEqual({ source: 'reservoir_2', target: 'reservoir_3' });
+    });
+
+    it('should not duplicate links declared from both ends', () => {
+      const graph = buildReservoirNetwork(reservoirs, 2, 1);
+      const upstreamLinks = graph.links.filter(
+        (l) => l.source === 'reservoir_1' && l.target === 'reservoir_2'
+      );
+
+      expect(upstreamLinks).toHaveLength(1);
+    });
+
+    it('should assign generations relative to the root', () => {
+      const graph = buildReservoirNetwork(reservoirs, 1, 2);
+      const generationOf = (id: string) => graph.nodes.find((n) => n.id === id)?.generation;
+
+      expect(generationOf('reservoir_1')).toBe(0);
+      expect(generationOf('reservoir_2')).toBe(1);
+      expect(generationOf('reservoir_3')).toBe(2);
+    });
+
+    it('should stop at the requested depth', () => {
+      const graph = buildReservoirNetwork(reservoirs, 1, 1);
+
+      expect(graph.nodes.some((n) => n.id === 'reservoir_3')).toBe(false);
+      expect(graph.nodes.map((n) => n.label)).toContain('Lower Lake');
+    });
+
+    it('should return an empty graph for an unknown reservoir', () => {
+      expect(buildReservoirNetwork(reservoirs, 999, 1)).toEqual({ nodes: [], links: [] });
+    });
+  });
+
+  describe('buildDatasetNetwork', () => {
+    it('should include every reservoir with reservoir-to-reservoir links', () => {
+      const isolated = normalizeReservoirConfig({
+        reservoir_id: 4,
+        reservoir_name: 'Desert Tank',
+        inflow: 'Well',
+        outflow: '',
+        projects: '',
+      });
+      const graph = buildDatasetNetwork([...reservoirs, isolated]);
+
+      expect(graph.nodes.filter((n) => n.type === 'main_reservoir')).toHaveLength(4);
+      expect(graph.links).toContainEqual({ source: 'reservoir_1', target: 'reservoir_2' });
+      expect(graph.links).toContainEqual({ source: 'reservoir_2', target: 'reservoir_3' });
+      expect(graph.nodes.every((n) => n.generation === 0)).toBe(true);
+    });
+  });
+
+  describe('listConnections', () => {
+    it('should pair each link with the reservoir it flows into or out of', () => {
+      const rows = listConnections(buildReservoirNetwork(reservoirs, 2, 1)).map(
+        ({ node, direction, reservoir }) => `${node.label} ${direction} ${reservoir.label}`
+      );
+
+      expect(rows).toEqual(
+        expect.arrayContaining([
+          'Side Creek in Middle Lake',
+          'Hydro Plant out Middle Lake',
+          'Upper Lake (Headwaters) in Middle Lake',
+          'Middle Lake in Lower Lake',
+          'Sea out Lower Lake',
+        ])
+      );
+      expect(rows).toHaveLength(new Set(rows).size);
+    });
+
+    it('should skip links to missing nodes', () => {
+      const graph = {
+        nodes: [{ id: 'lake', label: 'Lake', type: 'main_reservoir' as const }],
+        links: [{ source: 'gone', target: 'lake' }],
+      };
+      expect(listConnections(graph)).toEqual([]);
+    });
+  });
+
+  describe('findNameReferences', () => {
+    it('should find reservoirs named or connected under the name', () => {
+      expect(findNameReferences(reservoirs, 'middle lake (summer)')).toEqual([
+        { reservoirId: 1, reservoirName: 'Upper Lake (Headwaters)', field: 'outflow' },
+        { reservoirId: 2, reservoirName: 'Middle Lake', field: 'reservoir_name' },
+        { reservoirId: 3, reservoirName: 'Lower Lake', field: 'inflow' },
+      ]);
+    });
+
+    it('should return nothing for an unused name', () => {
+      expect(findNameReferences(reservoirs, 'Nowhere')).toEqual([]);
+    });
+  });
+});
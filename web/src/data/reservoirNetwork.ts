@@ -0,0 +1,196 @@
+import { normalizeReservoirName, parseReservoirConfig } from './reservoirData';
+import type { IGraphData, ILink, INode, ReservoirConfig } from './reservoirData';
+import { getNodeType } from './nodeTypes';
+
+export { normalizeReservoirName };
+
+/** A place in the dataset where a name appears */
+export interface NameReference {
+  reservoirId: number;
+  reservoirName: string;
+  field: 'reservoir_name' | 'inflow' | 'outflow' | 'projects';
+}
+
+/**
+ * Every reservoir that uses a name, either as its own name or as one of its
+ * connections. Names are compared with normalizeReservoirName.
+ */
+export function findNameReferences(reservoirs: ReservoirConfig[], name: string): NameReference[] {
+  const key = normalizeReservoirName(name);
+  const references: NameReference[] = [];
+  reservoirs.forEach((r) => {
+    const reference = (field: NameReference['field']) =>
+      references.push({ reservoirId: r.reservoir_id, reservoirName: r.reservoir_name, field });
+    if (normalizeReservoirName(r.reservoir_name) === key) reference('reservoir_name');
+    (['inflow', 'outflow', 'projects'] as const).forEach((field) => {
+      if (r[field].some((connection) => normalizeReservoirName(connection.name) === key)) reference(field);
+    });
+  });
+  return references;
+}
+
+interface ReservoirEdges {
+  upstream: Map<number, Set<number>>;
+  downstream: Map<number, Set<number>>;
+}
+
+/**
+ * Resolve inflow/outflow names that refer to other reservoirs into directed edges
+ */
+function buildReservoirEdges(reservoirs: ReservoirConfig[]): ReservoirEdges {
+  const byName = new Map<string, number>();
+  reservoirs.forEach((r) => byName.set(normalizeReservoirName(r.reservoir_name), r.reservoir_id));
+
+  const upstream = new Map<number, Set<number>>();
+  const downstream = new Map<number, Set<number>>();
+  reservoirs.forEach((r) => {
+    upstream.set(r.reservoir_id, new Set());
+    downstream.set(r.reservoir_id, new Set());
+  });
+
+  const addEdge = (from: number, to: number) => {
+    if (from === to) return;
+    downstream.get(from)!.add(to);
+    upstream.get(to)!.add(from);
+  };
+
+  reservoirs.forEach((r) => {
+    r.inflow.forEach(({ name }) => {
+      const fromId = byName.get(normalizeReservoirName(name));
+      if (fromId !== undefined) addEdge(fromId, r.reservoir_id);
+    });
+    r.outflow.forEach(({ name }) => {
+      const toId = byName.get(normalizeReservoirName(name));
+      if (toId !== undefined) addEdge(r.reservoir_id, toId);
+    });
+  });
+
+  return { upstream, downstream };
+}
+
+/**
+ * Walk the edge map breadth-first, recording the generation at which each reservoir is first reached
+ */
+function walkGenerations(
+  rootId: number,
+  edges: Map<number, Set<number>>,
+  depth: number,
+  direction: 1 | -1,
+  generations: Map<number, number>
+) {
+  let frontier = [rootId];
+  for (let step = 1; step <= depth && frontier.length > 0; step++) {
+    const next: number[] = [];
+    frontier.forEach((id) => {
+      edges.get(id)?.forEach((neighbourId) => {
+        if (generations.has(neighbourId)) return;
+        generations.set(neighbourId, step * direction);
+        next.push(neighbourId);
+      });
+    });
+    frontier = next;
+  }
+}
+
+/**
+ * Assemble the graph for the included reservoirs (id -> generation). Connections
+ * whose names match an included reservoir become direct reservoir-to-reservoir links.
+ */
+function assembleNetwork(reservoirs: ReservoirConfig[], included: Map<number, number>): IGraphData {
+  const byName = new Map<string, number>();
+  reservoirs
+    .filter((r) => included.has(r.reservoir_id))
+    .forEach((r) => byName.set(normalizeReservoirName(r.reservoir_name), r.reservoir_id));
+
+  const nodes: IGraphData['nodes'] = [];
+  const links: ILink[] = [];
+  const linkKeys = new Set<string>();
+  const addLink = (link: ILink) => {
+    const key = `${link.source}->${link.target}`;
+    if (linkKeys.has(key)) return;
+    linkKeys.add(key);
+    links.push(link);
+  };
+
+  reservoirs.forEach((reservoir) => {
+    const generation = included.get(reservoir.reservoir_id);
+    if (generation === undefined) return;
+
+    const graph = parseReservoirConfig(reservoir);
+    const replaced = new Map<string, string>();
+
+    graph.nodes.forEach((node) => {
+      const { side } = getNodeType(node.type);
+      const matchedId =
+        side === 'inflow' || side === 'outflow' ? byName.get(normalizeReservoirName(node.label)) : undefined;
+      if (matchedId !== undefined && matchedId !== reservoir.reservoir_id) {
+        replaced.set(node.id, `reservoir_${matchedId}`);
+        return;
+      }
+      nodes.push({ ...node, generation });
+    });
+
+    graph.links.forEach((link) => {
+      addLink({
+        ...link,
+        source: replaced.get(link.source) ?? link.source,
+        target: replaced.get(link.target) ?? link.target,
+      });
+    });
+  });
+
+  return { nodes, links };
+}
+
+/**
+ * Build a multi-generation pedigree graph around a reservoir.
+ * Inflows and outflows whose names match another reservoir are followed up to
+ * `generations` steps upstream and downstream; matched connections are drawn as
+ * direct reservoir-to-reservoir links.
+ */
+export function buildReservoirNetwork(
+  reservoirs: ReservoirConfig[],
+  rootId: number,
+  generations: number
+): IGraphData {
+  const root = reservoirs.find((r) => r.reservoir_id === rootId);
+  if (!root) return { nodes: [], links: [] };
+
+  const edges = buildReservoirEdges(reservoirs);
+  const included = new Map<number, number>([[rootId, 0]]);
+  walkGenerations(rootId, edges.upstream, generations, -1, included);
+  walkGenerations(rootId, edges.downstream, generations, 1, included);
+
+  return assembleNetwork(reservoirs, included);
+}
+
+/**
+ * Build one graph covering every reservoir in the dataset, linking reservoirs
+ * that feed each other. Generations are not meaningful here and are all 0.
+ */
+export function buildDatasetNetwork(reservoirs: ReservoirConfig[]): IGraphData {
+  return assembleNetwork(reservoirs, new Map(reservoirs.map((r) => [r.reservoir_id, 0])));
+}
+
+/** A link seen from its connection end, as one row of the table view */
+export interface GraphConnection {
+  node: INode; // The inflow, outflow, project, or upstream reservoir
+  direction: 'in' | 'out'; // Into or out of `reservoir`
+  reservoir: INode;
+}
+
+/**
+ * Every link in a graph, paired with the reservoir at one end. A link between two
+ * reservoirs is listed once, as an inflow into the downstream one.
+ */
+export function listConnections(graph: IGraphData): GraphConnection[] {
+  const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+  return graph.links.flatMap((link): GraphConnection[] => {
+    const source = byId.get(link.source);
+    const target = byId.get(link.target);
+    if (!source || !target) return [];
+    if (target.type === 'main_reservoir') return [{ node: source, direction: 'in', reservoir: target }];
+    if (source.type === 'main_reservoir') return [{ node: target, direction: 'out', reservoir: source }];
+    return [];
+  });
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { buildSearchIndex, fuzzyMatch, searchIndex } from './reservoirSearch';
+import { normalizeReservoirConfig, parseReservoirConfig } from './reservoirData';
+import type { LegacyReservoirConfig } from './reservoirData';
+
+describe('reservoirSearch', () => {
+  const legacyReservoirs: LegacyReservoirConfig[] = [
+    {
+      reservoir_id: 1,
+      reservoir_name: 'Upper Lake',
+      inflow: 'Snow Melt',
+      outflow: 'Middle Lake',
+      projects: '',
+    },
+    {
+      reservoir_id: 2,
+      reservoir_name: 'Middle Lake',
+      inflow: 'Upper Lake, Side Creek',
+      outflow: 'Sea',
+      projects: 'Hydro Plant',
+    },
+  ];
+  const reservoirs = legacyReservoirs.map(normalizeReservoirConfig);
+  const index = buildSearchIndex(reservoirs);
+
+  describe('buildSearchIndex', () => {
+    it('should index reservoir names and every connection name', () => {
+      expect(index.map((e) => e.name).sort()).toEqual(
+        [
+          'Upper Lake',
+          'Snow Melt',
+          'Middle Lake',
+          'Middle Lake',
+          'Upper Lake',
+          'Side Creek',
+          'Sea',
+          'Hydro Plant',
+        ].sort()
+      );
+    });
+
+    it('should use the node ids of the reservoir graph', () => {
+      const nodeIds = new Set(parseReservoirConfig(reservoirs[1]).nodes.map((n) => n.id));
+      const entries = index.filter((e) => e.reservoirId === 2);
+      expect(entries.every((e) => nodeIds.has(e.nodeId))).toBe(true);
+      expect(entries.find((e) => e.name === 'Hydro Plant')).toMatchObject({
+        type: 'project',
+        reservoirName: 'Middle Lake',
+      });
+    });
+  });
+
+  describe('fuzzyMatch', () => {
+    it('should match characters in order, case-insensitively', () => {
+      expect(fuzzyMatch('hpl', 'Hydro Plant')?.indices).toEqual([0, 6, 7]);
+      expect(fuzzyMatch('HYDRO', 'Hydro Plant')).not.toBeNull();
+    });
+
+    it('should not match when characters are missing or out of order', () => {
+      expect(fuzzyMatch('xyz', 'Hydro Plant')).toBeNull();
+      expect(fuzzyMatch('tnalp', 'Hydro Plant')).toBeNull();
+    });
+
+    it('should not match an empty query', () => {
+      expect(fuzzyMatch('  ', 'Hydro Plant')).toBeNull();
+    });
+
+    it('should rank prefixes above other substrings, and substrings above scattered matches', () => {
+      const prefix = fuzzyMatch('sea', 'Sea')!.score;
+      const substring = fuzzyMatch('sea', 'North Sea')!.score;
+      const scattered = fuzzyMatch('sea', 'Side Creek Area')!.score;
+      expect(prefix).toBeGreaterThan(substring);
+      expect(substring).toBeGreaterThan(scattered);
+    });
+  });
+
+  describe('searchIndex', () => {
+    it('should return the best matches first', () => {
+      const results = searchIndex(index, 'side');
+      expect(results[0].entry.name).toBe('Side Creek');
+    });
+
+    it('should return one result per reservoir for a shared name', () => {
+      const results = searchIndex(index, 'upper lake');
+      expect(results.map((r) => [r.entry.type, r.entry.reservoirId])).toEqual(
+        expect.arrayContaining([
+          ['main_reservoir', 1],
+          ['inflow', 2],
+        ])
+      );
+    });
+
+    it('should respect the limit', () => {
+      expect(searchIndex(index, 'e', 3)).toHaveLength(3);
+    });
+
+    it('should return nothing for an empty query', () => {
+      expect(searchIndex(index, '')).toEqual([]);
+    });
+  });
+});
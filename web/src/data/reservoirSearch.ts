@@ -0,0 +1,90 @@
+import { parseReservoirConfig } from './reservoirData';
+import type { INode, ReservoirConfig } from './reservoirData';
+
+/** One searchable name: a reservoir or one of its connections */
+export interface SearchEntry {
+  nodeId: string; // The node's id in the reservoir's graph
+  name: string;
+  type: INode['type'];
+  reservoirId: number;
+  reservoirName: string;
+}
+
+export interface SearchResult {
+  entry: SearchEntry;
+  score: number;
+  indices: number[]; // Positions in entry.name that matched the query
+}
+
+/**
+ * Index every reservoir name and every inflow, outflow and project name.
+ * Node ids come from parseReservoirConfig so results can be found in the graph.
+ */
+export function buildSearchIndex(reservoirs: ReservoirConfig[]): SearchEntry[] {
+  return reservoirs.flatMap((reservoir) =>
+    parseReservoirConfig(reservoir).nodes.map((node) => ({
+      nodeId: node.id,
+      name: node.label,
+      type: node.type,
+      reservoirId: reservoir.reservoir_id,
+      reservoirName: reservoir.reservoir_name,
+    }))
+  );
+}
+
+const isWordStart = (text: string, i: number) => i === 0 || !/[a-z0-9]/i.test(text[i - 1]);
+
+/**
+ * Fuzzy-match a query against text: every query character must appear in order.
+ * Consecutive characters, word starts and whole-substring matches score higher.
+ * Returns null when the text doesn't match.
+ */
+export function fuzzyMatch(query: string, text: string): { score: number; indices: number[] } | null {
+  const q = query.trim().toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return null;
+
+  // A contiguous substring is the best kind of match; take it directly
+  const substringAt = t.indexOf(q);
+  if (substringAt >= 0) {
+    const indices = Array.from({ length: q.length }, (_, i) => substringAt + i);
+    const score = 100 + (substringAt === 0 ? 20 : 0) + (isWordStart(t, substringAt) ? 10 : 0) - t.length / 100;
+    return { score, indices };
+  }
+
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const char of q) {
+    if (char === ' ') continue;
+    // Prefer the next occurrence that starts a word, otherwise take the nearest one
+    let index = t.indexOf(char, from);
+    if (index < 0) return null;
+    for (let candidate = index; candidate >= 0; candidate = t.indexOf(char, candidate + 1)) {
+      if (isWordStart(t, candidate)) {
+        index = candidate;
+        break;
+      }
+    }
+    score += 1;
+    if (isWordStart(t, index)) score += 3;
+    if (indices.length > 0 && index === indices[indices.length - 1] + 1) score += 2;
+    indices.push(index);
+    from = index + 1;
+  }
+  return { score: score - t.length / 100, indices };
+}
+
+/**
+ * Best matches for a query, best first
+ */
+export function searchIndex(index: SearchEntry[], query: string, limit = 10): SearchResult[] {
+  return index
+    .map((entry) => {
+      const match = fuzzyMatch(query, entry.name);
+      return match && { entry, ...match };
+    })
+    .filter((result): result is SearchResult => result !== null)
+    .sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name))
+    .slice(0, limit);
+}
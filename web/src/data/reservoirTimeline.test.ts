@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { getTimelineDates, resolveReservoirAtDate } from './reservoirTimeline';
+import type { ReservoirConfig } from './reservoirData';
+
+describe('reservoirTimeline', () => {
+  const lake: ReservoirConfig = {
+    reservoir_id: 1,
+    reservoir_name: 'Seasonal Lake',
+    inflow: [{ id: 'river', name: 'River', flow: { value: 5, unit: 'm3/s' } }],
+    outflow: [{ id: 'canal', name: 'Canal' }],
+    projects: [{ id: 'marina', name: 'Marina' }],
+    storage: { value: 100, unit: 'ML' },
+    snapshots: [
+      {
+        date: '2024-07-01',
+        inflow: [{ id: 'river', name: 'River', flow: { value: 2, unit: 'm3/s' } }],
+      },
+      {
+        date: '2024-01-01',
+        storage: { value: 80, unit: 'ML' },
+        projects: [],
+      },
+    ],
+  };
+
+  describe('getTimelineDates', () => {
+    it('should return sorted unique dates across reservoirs', () => {
+      const other: ReservoirConfig = { ...lake, reservoir_id: 2, snapshots: [{ date: '2024-01-01' }] };
+
+      expect(getTimelineDates([lake, other])).toEqual(['2024-01-01', '2024-07-01']);
+    });
+
+    it('should return no dates when there are no snapshots', () => {
+      expect(getTimelineDates([{ ...lake, snapshots: undefined }])).toEqual([]);
+    });
+  });
+
+  describe('resolveReservoirAtDate', () => {
+    it('should use the base configuration before the first snapshot', () => {
+      expect(resolveReservoirAtDate(lake, '2023-12-31')).toBe(lake);
+    });
+
+    it('should apply the latest snapshot on or before the date', () => {
+      const january = resolveReservoirAtDate(lake, '2024-01-01');
+
+      expect(january.projects).toEqual([]);
+      expect(january.storage).toEqual({ value: 80, unit: 'ML' });
+      expect(january.inflow).toBe(lake.inflow);
+    });
+
+    it('should fall back to the base for fields a snapshot omits', () => {
+      const summer = resolveReservoirAtDate(lake, '2024-08-15');
+
+      expect(summer.inflow[0].flow).toEqual({ value: 2, unit: 'm3/s' });
+      expect(summer.projects).toBe(lake.projects);
+      expect(summer.storage).toEqual({ value: 100, unit: 'ML' });
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import type { ReservoirConfig, ReservoirSnapshot } from './reservoirData';
+
+/**
+ * All snapshot dates across the given reservoirs, sorted and de-duplicated
+ */
+export function getTimelineDates(reservoirs: ReservoirConfig[]): string[] {
+  const dates = new Set<string>();
+  reservoirs.forEach((r) => r.snapshots?.forEach((snapshot) => dates.add(snapshot.date)));
+  return [...dates].sort();
+}
+
+/**
+ * Resolve a reservoir's state on a date: the latest snapshot on or before the date
+ * is applied over the base configuration. Before the first snapshot the base applies.
+ */
+export function resolveReservoirAtDate(config: ReservoirConfig, date: string): ReservoirConfig {
+  // ISO dates compare correctly as strings
+  const snapshot = config.snapshots
+    ?.filter((s) => s.date <= date)
+    .reduce<ReservoirSnapshot | undefined>(
+      (latest, s) => (!latest || s.date > latest.date ? s : latest),
+      undefined
+    );
+  if (!snapshot) return config;
+
+  const storage = snapshot.storage ?? config.storage;
+  return {
+    ...config,
+    inflow: snapshot.inflow ?? config.inflow,
+    outflow: snapshot.outflow ?? config.outflow,
+    projects: snapshot.projects ?? config.projects,
+    ...(storage && { storage }),
+  };
+}
+
+/**
+ * Resolve every reservoir's state on a date
+ */
+export function resolveReservoirsAtDate(reservoirs: ReservoirConfig[], date: string): ReservoirConfig[] {
+  return reservoirs.map((r) => resolveReservoirAtDate(r, date));
+}
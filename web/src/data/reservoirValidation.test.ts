@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { hasValidationErrors, validateReservoirData } from './reservoirValidation';
+import reservoirDataJson from './reservoirData.json';
+
+describe('reservoirValidation', () => {
+  const validLegacy = {
+    reservoir_id: 1,
+    reservoir_name: 'Test Lake',
+    inflow: 'North Creek',
+    outflow: 'Spillway',
+    projects: '',
+  };
+
+  it('should accept the bundled dataset without errors', () => {
+    expect(hasValidationErrors(validateReservoirData(reservoirDataJson))).toBe(false);
+  });
+
+  it('should reject data that is neither a list nor a v2 wrapper', () => {
+    const issues = validateReservoirData({ foo: 'bar' });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].severity).toBe('error');
+  });
+
+  it('should reject an unsupported schema version', () => {
+    const issues = validateReservoirData({ schema_version: 99, reservoirs: [] });
+
+    expect(issues).toContainEqual(
+      expect.objectContaining({ severity: 'error', field: 'schema_version' })
+    );
+  });
+
+  it('should report duplicate reservoir ids', () => {
+    const issues = validateReservoirData([validLegacy, { ...validLegacy, reservoir_name: 'Other' }]);
+
+    expect(issues).toEqual([
+      { severity: 'error', reservoirId: 1, field: 'reservoir_id', message: 'Duplicate reservoir_id 1' },
+    ]);
+  });
+
+  it('should report blank reservoir names', () => {
+    const issues = validateReservoirData([{ ...validLegacy, reservoir_name: '   ' }]);
+
+    expect(issues).toContainEqual(
+      expect.objectContaining({ severity: 'error', reservoirId: 1, field: 'reservoir_name' })
+    );
+  });
+
+  it('should warn about empty segments from trailing commas', () => {
+    const issues = validateReservoirData([{ ...validLegacy, inflow: 'North Creek, ' }]);
+
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: 'warning', reservoirId: 1, field: 'inflow[1]' }),
+    ]);
+  });
+
+  it('should warn about duplicate connection names regardless of case', () => {
+    const issues = validateReservoirData([{ ...validLegacy, outflow: 'Spillway, spillway' }]);
+
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: 'warning', reservoirId: 1, field: 'outflow[1]' }),
+    ]);
+  });
+
+  it('should report duplicate and malformed v2 connections', () => {
+    const issues = validateReservoirData({
+      schema_version: 2,
+      reservoirs: [
+        {
+          ...validLegacy,
+          inflow: [
+            { id: 'creek', name: 'Creek' },
+            { id: 'creek', name: 'Other Creek' },
+            'Not an object',
+          ],
+        },
+      ],
+    });
+
+    expect(issues.map((i) => i.field)).toEqual(['inflow[1].id', 'inflow[2]']);
+    expect(hasValidationErrors(issues)).toBe(true);
+  });
+
+  it('should report connection fields of the wrong type', () => {
+    const issues = validateReservoirData([{ ...validLegacy, projects: 42 }]);
+
+    expect(issues).toContainEqual(
+      expect.objectContaining({ severity: 'error', reservoirId: 1, field: 'projects' })
+    );
+  });
+
+  it('should validate connection flows', () => {
+    const issues = validateReservoirData({
+      schema_version: 2,
+      reservoirs: [
+        {
+          ...validLegacy,
+          inflow: [
+            { id: 'a', name: 'A', flow: { value: 2, unit: 'm3/s' } },
+            { id: 'b', name: 'B', flow: { value: -1, unit: 'm3/s' } },
+            { id: 'c', name: 'C', flow: { value: 2, unit: 'buckets/h' } },
+            { id: 'd', name: 'D', flow: 5 },
+          ],
+        },
+      ],
+    });
+
+    expect(issues.map((i) => [i.severity, i.field])).toEqual([
+      ['error', 'inflow[1].flow.value'],
+      ['warning', 'inflow[2].flow.unit'],
+      ['error', 'inflow[3].flow'],
+    ]);
+  });
+
+  it('should warn about unknown node types', () => {
+    const issues = validateReservoirData({
+      schema_version: 2,
+      reservoirs: [
+        {
+          ...validLegacy,
+          inflow: [
+            { id: 'a', name: 'A', type: 'gauge' },
+            { id: 'b', name: 'B', type: 'sluice' },
+            { id: 'c', name: 'C', type: 'main_reservoir' },
+          ],
+        },
+      ],
+    });
+
+    expect(issues.map((i) => [i.severity, i.field])).toEqual([
+      ['warning', 'inflow[1].type'],
+      ['warning', 'inflow[2].type'],
+    ]);
+  });
+
+  it('should check link kinds and labels', () => {
+    const issues = validateReservoirData({
+      schema_version: 2,
+      reservoirs: [
+        {
+          ...validLegacy,
+          outflow: [
+            { id: 'a', name: 'A', linkKind: 'canal', linkLabel: 'Main Canal' },
+            { id: 'b', name: 'B', linkKind: 'aqueduct' },
+            { id: 'c', name: 'C', linkLabel: 7 },
+          ],
+        },
+      ],
+    });
+
+    expect(issues.map((i) => [i.severity, i.field])).toEqual([
+      ['warning', 'outflow[1].linkKind'],
+      ['error', 'outflow[2].linkLabel'],
+    ]);
+  });
+
+  it('should validate snapshots', () => {
+    const issues = validateReservoirData({
+      schema_version: 2,
+      reservoirs: [
+        {
+          ...validLegacy,
+          storage: { value: 100, unit: 'ML' },
+          snapshots: [
+            { date: '2024-01-01', storage: { value: 90, unit: 'ML' }, inflow: [] },
+            { date: '2024-01-01' },
+            { date: 'January', storage: { value: -5, unit: 'ML' } },
+            { date: '2024-02-01', outflow: 'Spillway, ' },
+          ],
+        },
+      ],
+    });
+
+    expect(issues.map((i) => [i.severity, i.field])).toEqual([
+      ['error', 'snapshots[1].date'],
+      ['error', 'snapshots[2].date'],
+      ['error', 'snapshots[2].storage.value'],
+      ['warning', 'snapshots[3].outflow[1]'],
+    ]);
+  });
+});
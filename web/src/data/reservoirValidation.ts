@@ -0,0 +1,288 @@
+import { CURRENT_SCHEMA_VERSION } from './schema';
+import { FLOW_UNITS, isKnownFlowUnit } from './flowUnits';
+import { isConnectionNodeType } from './nodeTypes';
+import { isLinkKind } from './linkKinds';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  reservoirId?: number; // Absent for file-level issues
+  field?: string; // e.g. 'reservoir_name' or 'inflow[2]'
+  message: string;
+}
+
+const CONNECTION_FIELDS = ['inflow', 'outflow', 'projects'] as const;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a connection's flow quantity
+ */
+function validateFlow(
+  flow: unknown,
+  field: string,
+  report: (severity: ValidationSeverity, message: string, field: string) => void
+) {
+  if (!isRecord(flow) || typeof flow.value !== 'number' || typeof flow.unit !== 'string') {
+    report('error', 'Flow must be an object with a numeric value and a unit', field);
+  } else if (!Number.isFinite(flow.value) || flow.value < 0) {
+    report('error', 'Flow value must be a non-negative number', `${field}.value`);
+  } else if (!isKnownFlowUnit(flow.unit)) {
+    report(
+      'warning',
+      `Unknown flow unit "${flow.unit}"; expected one of ${FLOW_UNITS.join(', ')}`,
+      `${field}.unit`
+    );
+  }
+}
+
+/**
+ * Validate a storage volume
+ */
+function validateStorage(
+  storage: unknown,
+  field: string,
+  reservoirId: number | undefined,
+  issues: ValidationIssue[]
+) {
+  if (!isRecord(storage) || typeof storage.value !== 'number' || typeof storage.unit !== 'string') {
+    issues.push({
+      severity: 'error',
+      reservoirId,
+      field,
+      message: 'Storage must be an object with a numeric value and a unit',
+    });
+  } else if (!Number.isFinite(storage.value) || storage.value < 0) {
+    issues.push({
+      severity: 'error',
+      reservoirId,
+      field: `${field}.value`,
+      message: 'Storage value must be a non-negative number',
+    });
+  }
+}
+
+/**
+ * Validate the dated snapshots of a reservoir
+ */
+function validateSnapshots(snapshots: unknown, reservoirId: number | undefined, issues: ValidationIssue[]) {
+  if (!Array.isArray(snapshots)) {
+    issues.push({ severity: 'error', reservoirId, field: 'snapshots', message: 'snapshots must be a list' });
+    return;
+  }
+
+  const seenDates = new Set<string>();
+  snapshots.forEach((snapshot, i) => {
+    const field = `snapshots[${i}]`;
+    if (!isRecord(snapshot)) {
+      issues.push({ severity: 'error', reservoirId, field, message: 'Snapshot must be an object' });
+      return;
+    }
+
+    const { date } = snapshot;
+    if (typeof date !== 'string' || !ISO_DATE.test(date) || Number.isNaN(Date.parse(date))) {
+      issues.push({
+        severity: 'error',
+        reservoirId,
+        field: `${field}.date`,
+        message: 'Snapshot date must be an ISO date (YYYY-MM-DD)',
+      });
+    } else if (seenDates.has(date)) {
+      issues.push({
+        severity: 'error',
+        reservoirId,
+        field: `${field}.date`,
+        message: `Duplicate snapshot date ${date}`,
+      });
+    } else {
+      seenDates.add(date);
+    }
+
+    if (snapshot.storage !== undefined) {
+      validateStorage(snapshot.storage, `${field}.storage`, reservoirId, issues);
+    }
+    CONNECTION_FIELDS.forEach((connectionField) => {
+      if (snapshot[connectionField] !== undefined) {
+        validateConnections(snapshot[connectionField], `${field}.${connectionField}`, reservoirId, issues);
+      }
+    });
+  });
+}
+
+/**
+ * Validate one connection field of a record, in either legacy string or v2 array form
+ */
+function validateConnections(
+  value: unknown,
+  field: string,
+  reservoirId: number | undefined,
+  issues: ValidationIssue[]
+) {
+  const report = (severity: ValidationSeverity, message: string, subField = field) =>
+    issues.push({ severity, reservoirId, field: subField, message });
+
+  let names: { name: string; field: string }[];
+
+  if (typeof value === 'string') {
+    if (!value.trim()) return;
+    names = value.split(',').map((s, i) => ({ name: s.trim(), field: `${field}[${i}]` }));
+    names
+      .filter((entry) => !entry.name)
+      .forEach((entry) => report('warning', 'Empty entry (trailing or doubled comma)', entry.field));
+  } else if (Array.isArray(value)) {
+    const ids = new Set<string>();
+    names = [];
+    value.forEach((connection, i) => {
+      const entryField = `${field}[${i}]`;
+      if (!isRecord(connection)) {
+        report('error', 'Connection must be an object with an id and a name', entryField);
+        return;
+      }
+      if (typeof connection.id !== 'string' || !connection.id.trim()) {
+        report('error', 'Connection id must be a non-empty string', `${entryField}.id`);
+      } else if (ids.has(connection.id)) {
+        report('error', `Duplicate connection id "${connection.id}"`, `${entryField}.id`);
+      } else {
+        ids.add(connection.id);
+      }
+      if (typeof connection.name !== 'string') {
+        report('error', 'Connection name must be a string', `${entryField}.name`);
+        return;
+      }
+      if (!connection.name.trim()) {
+        report('warning', 'Connection name is blank', `${entryField}.name`);
+      }
+      if (connection.attributes !== undefined && !isRecord(connection.attributes)) {
+        report('error', 'Connection attributes must be an object', `${entryField}.attributes`);
+      }
+      if (connection.flow !== undefined) {
+        validateFlow(connection.flow, `${entryField}.flow`, report);
+      }
+      if (connection.consumptive !== undefined && typeof connection.consumptive !== 'boolean') {
+        report('error', 'consumptive must be true or false', `${entryField}.consumptive`);
+      }
+      if (connection.type !== undefined && !isConnectionNodeType(connection.type)) {
+        report(
+          'warning',
+          `Unknown node type ${JSON.stringify(connection.type)}; drawn as a plain connection`,
+          `${entryField}.type`
+        );
+      }
+      if (connection.linkKind !== undefined && !isLinkKind(connection.linkKind)) {
+        report(
+          'warning',
+          `Unknown link kind ${JSON.stringify(connection.linkKind)}; drawn as a plain link`,
+          `${entryField}.linkKind`
+        );
+      }
+      if (connection.linkLabel !== undefined && typeof connection.linkLabel !== 'string') {
+        report('error', 'linkLabel must be a string', `${entryField}.linkLabel`);
+      }
+      names.push({ name: connection.name.trim(), field: entryField });
+    });
+  } else {
+    report('error', 'Expected a comma-separated string or a list of connections');
+    return;
+  }
+
+  const seen = new Set<string>();
+  names
+    .filter((entry) => entry.name)
+    .forEach((entry) => {
+      const key = entry.name.toLowerCase();
+      if (seen.has(key)) {
+        report('warning', `Duplicate connection name "${entry.name}"`, entry.field);
+      }
+      seen.add(key);
+    });
+}
+
+/**
+ * Validate a raw reservoir data file (legacy array or v2 wrapper).
+ * Returns every problem found rather than stopping at the first one.
+ */
+export function validateReservoirData(file: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  let records: unknown[];
+  if (Array.isArray(file)) {
+    records = file;
+  } else if (isRecord(file) && Array.isArray(file.reservoirs)) {
+    if (file.schema_version !== CURRENT_SCHEMA_VERSION) {
+      issues.push({
+        severity: 'error',
+        field: 'schema_version',
+        message: `Unsupported schema version ${JSON.stringify(file.schema_version)}`,
+      });
+    }
+    records = file.reservoirs;
+  } else {
+    issues.push({
+      severity: 'error',
+      message: 'Data must be a list of reservoirs or an object with a "reservoirs" list',
+    });
+    return issues;
+  }
+
+  const seenIds = new Set<number>();
+  records.forEach((record, index) => {
+    if (!isRecord(record)) {
+      issues.push({ severity: 'error', field: `reservoirs[${index}]`, message: 'Reservoir must be an object' });
+      return;
+    }
+
+    const id = record.reservoir_id;
+    const reservoirId = typeof id === 'number' ? id : undefined;
+
+    if (typeof id !== 'number' || !Number.isInteger(id)) {
+      issues.push({
+        severity: 'error',
+        field: `reservoirs[${index}].reservoir_id`,
+        message: 'reservoir_id must be an integer',
+      });
+    } else if (seenIds.has(id)) {
+      issues.push({
+        severity: 'error',
+        reservoirId,
+        field: 'reservoir_id',
+        message: `Duplicate reservoir_id ${id}`,
+      });
+    } else {
+      seenIds.add(id);
+    }
+
+    if (typeof record.reservoir_name !== 'string' || !record.reservoir_name.trim()) {
+      issues.push({
+        severity: 'error',
+        reservoirId,
+        field: 'reservoir_name',
+        message: 'reservoir_name must be a non-empty string',
+      });
+    }
+
+    CONNECTION_FIELDS.forEach((field) => {
+      validateConnections(record[field], field, reservoirId, issues);
+    });
+
+    if (record.storage !== undefined) {
+      validateStorage(record.storage, 'storage', reservoirId, issues);
+    }
+    if (record.snapshots !== undefined) {
+      validateSnapshots(record.snapshots, reservoirId, issues);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * True when the issues contain at least one error (warnings alone don't block loading)
+ */
+export function hasValidationErrors(issues: ValidationIssue[]): boolean {
+  return issues.some((issue) => issue.severity === 'error');
+}
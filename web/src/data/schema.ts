@@ -0,0 +1,2 @@
+/** The schema version written by the editor and expected of versioned data files */
+export const CURRENT_SCHEMA_VERSION = 2;